@@ -4,11 +4,24 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import AuthPage from "@/pages/auth";
+import { useUser } from "@/hooks/useAuth";
 
 function Router() {
+  const { data: user, isLoading } = useUser();
+
+  // Everything is behind the login screen
+  if (isLoading) {
+    return <div className="min-h-screen w-full bg-gray-50" />;
+  }
+  if (!user) {
+    return <AuthPage />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={Home}/>
+      <Route path="/s/:code" component={Home}/>
       <Route component={NotFound} />
     </Switch>
   );
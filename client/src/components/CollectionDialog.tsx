@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog';
+import { Collection } from '@shared/schema';
+import { useCreateCollection } from '@/hooks/useMapData';
+import { toast } from '@/hooks/use-toast';
+
+interface CollectionDialogProps {
+  workspaceId: number | undefined;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (collection: Collection) => void;
+}
+
+// Colours offered for new collections, cycled so each starts different
+const COLLECTION_COLORS = ['#F97316', '#8B5CF6', '#0EA5E9', '#EC4899', '#14B8A6', '#EAB308'];
+
+const CollectionDialog: React.FC<CollectionDialogProps> = ({
+  workspaceId,
+  open,
+  onOpenChange,
+  onCreated,
+}) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [color, setColor] = useState(COLLECTION_COLORS[0]);
+  const createCollection = useCreateCollection(workspaceId);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      const collection = await createCollection.mutateAsync({ name, description, color });
+      onCreated(collection);
+      onOpenChange(false);
+      setName('');
+      setDescription('');
+      setColor(COLLECTION_COLORS[(COLLECTION_COLORS.indexOf(color) + 1) % COLLECTION_COLORS.length]);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Creating collection failed',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>New Collection</DialogTitle>
+            <DialogDescription>
+              Group highlighted roads for one campaign, such as a leafleting round or a
+              survey. Any roads selected now are added to it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 py-4">
+            <div className="space-y-1">
+              <Label htmlFor="collection-name">Name</Label>
+              <Input
+                id="collection-name"
+                value={name}
+                maxLength={100}
+                required
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="collection-description">Description</Label>
+              <Textarea
+                id="collection-description"
+                value={description}
+                maxLength={500}
+                rows={3}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="collection-color">Colour</Label>
+              <Input
+                id="collection-color"
+                type="color"
+                className="h-9 w-16 p-1"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || createCollection.isPending}>
+              Create
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CollectionDialog;
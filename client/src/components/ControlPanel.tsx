@@ -1,18 +1,56 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Road } from '@shared/schema';
-import { Map, RotateCcw, X, Search, Info, List, ChevronDown, ChevronUp, MapPin, Ruler } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Progress } from '@/components/ui/progress';
+import CollectionDialog from '@/components/CollectionDialog';
+import WorkspaceDialog, { ROLE_LABELS } from '@/components/WorkspaceDialog';
+import { peerColor } from '@/components/MapContainer';
+import HighlightEditForm from '@/components/HighlightEditForm';
+import RoadSearch from '@/components/RoadSearch';
+import {
+  Road, Street, Area, RoadHighlight, RoadCoverage, CoverageProgress, CoverageStatus, Collection, MemberWorkspace, Presence,
+  RoadSearchResult,
+} from '@shared/schema';
+import {
+  useImportHighlights, useMatchTrack, useSaveCoverage, useDeleteCoverage,
+  useSaveCollectionHighlights, useDeleteCollection,
+} from '@/hooks/useMapData';
+import { useUser, useLogout } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/utils';
+import { toGpx, toKml } from '@shared/routeExport';
+import { Map, RotateCcw, X, Search, Info, List, ChevronDown, ChevronUp, MapPin, Ruler, Route, Download, Upload, Footprints, CheckCircle2, Trophy, FolderPlus, Save, Trash2, LogOut, Users, Link2 } from 'lucide-react';
 
 interface ControlPanelProps {
+  area: Area | undefined;
+  areas: Area[];
+  onAreaChange: (areaId: string) => void;
+  workspaces: MemberWorkspace[];
+  workspace: MemberWorkspace | undefined; // The active workspace, with the user's role in it
+  onWorkspaceChange: (workspaceId: number) => void;
+  collections: Collection[];
+  collection: Collection | undefined; // The active collection, if any
+  onCollectionChange: (collectionId: number | null) => void;
+  onCollectionSaved: (highlights: RoadHighlight[]) => void;
+  peers: Presence[]; // Teammates looking at the same collection
   selectedRoad: Road | null;
+  selectedStreet: Street | null;
+  selectedHighlight: RoadHighlight | undefined; // Saved highlight of the selected road, if any
   selectedRoads: Record<string, Road>;
+  coverage: Record<string, RoadCoverage>; // Coverage records by road ID
+  coverageProgress: CoverageProgress | null;
   totalLength: number;
   onReset: () => void;
   onClearSelection: () => void;
-  onFocusRoad: () => void;
+  onShare: () => void;
+  onFocusRoads: (roads: Road[]) => void;
+  onSearchPick: (result: RoadSearchResult, select: boolean) => void;
+  onHighlightsImported: (highlights: RoadHighlight[]) => void;
+  onTrackMatched: (roads: Road[]) => void;
   isMobile: boolean;
 }
 
@@ -28,21 +66,241 @@ const ROAD_TYPE_COLORS: Record<string, string> = {
   'Other': 'bg-gray-400',
 };
 
+const COVERAGE_LABELS: Record<CoverageStatus, string> = {
+  full: 'Completed',
+  partial: 'Partly covered',
+};
+
+// Today's date as YYYY-MM-DD in local time
+function today(): string {
+  const now = new Date();
+  return [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
 const ControlPanel: React.FC<ControlPanelProps> = ({
+  area,
+  areas,
+  onAreaChange,
+  workspaces,
+  workspace,
+  onWorkspaceChange,
+  collections,
+  collection,
+  onCollectionChange,
+  onCollectionSaved,
+  peers,
   selectedRoad,
+  selectedStreet,
+  selectedHighlight,
   selectedRoads,
+  coverage,
+  coverageProgress,
   totalLength,
   onReset,
   onClearSelection,
-  onFocusRoad,
+  onShare,
+  onFocusRoads,
+  onSearchPick,
+  onHighlightsImported,
+  onTrackMatched,
   isMobile,
 }) => {
   const selectedCount = Object.keys(selectedRoads).length;
   const [selectedRoadsExpanded, setSelectedRoadsExpanded] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const importHighlights = useImportHighlights(workspace?.id, collection?.id);
+  const trackInputRef = useRef<HTMLInputElement>(null);
+  const matchTrack = useMatchTrack(area?.id);
+  // Km of each road the last matched GPS track covered, by road ID
+  const [trackCoverage, setTrackCoverage] = useState<Record<string, number>>({});
+  const { data: user } = useUser();
+  const logout = useLogout();
+  const saveCollectionHighlights = useSaveCollectionHighlights(workspace?.id);
+  const deleteCollection = useDeleteCollection(workspace?.id);
+  const [collectionDialogOpen, setCollectionDialogOpen] = useState(false);
+  const [workspaceDialogOpen, setWorkspaceDialogOpen] = useState(false);
+  // Viewers see the workspace's highlights but get no controls for changing them
+  const canEdit = !!workspace && workspace.role !== 'viewer';
+  const saveCoverage = useSaveCoverage(workspace?.id, area?.id);
+  const deleteCoverage = useDeleteCoverage(workspace?.id, area?.id);
+
+  // Record the selected roads as completed or partly covered today, by the logged-in user
+  const handleMarkCoverage = async (status: CoverageStatus) => {
+    // A partial mark takes the length from the last matched track, or keeps the
+    // length covered so far; roads with neither are left out
+    const records = sortedSelectedRoads.flatMap((road) => {
+      const coveredLength = status === 'full'
+        ? road.length
+        : Math.min(Math.max(trackCoverage[road.id] ?? 0, coverage[road.id]?.coveredLength ?? 0), road.length);
+      return coveredLength > 0 ? [{ roadId: road.id, status, coveredLength, completedAt: today() }] : [];
+    });
+
+    const unknownCount = sortedSelectedRoads.length - records.length;
+    if (records.length === 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Nothing to record',
+        description: 'Upload a GPS track of the walk to record how much of these roads it covered.',
+      });
+      return;
+    }
+
+    try {
+      await saveCoverage.mutateAsync(records);
+      toast({
+        title: 'Coverage recorded',
+        description: `Marked ${records.length} ${records.length === 1 ? 'road' : 'roads'} as ${COVERAGE_LABELS[status].toLowerCase()}.`
+          + (unknownCount > 0 ? ` ${unknownCount} without a matched track ${unknownCount === 1 ? 'was' : 'were'} skipped.` : ''),
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Recording coverage failed',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleClearCoverage = async (roadId: string) => {
+    try {
+      await deleteCoverage.mutateAsync(roadId);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Clearing coverage failed',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  // Match a recorded GPS track to roads and select the ones it covered
+  const handleTrackFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { matches, roads } = await matchTrack.mutateAsync(file);
+      onTrackMatched(roads);
+      setTrackCoverage(Object.fromEntries(matches.map(match => [match.roadId, match.coveredLength])));
+      const covered = matches.reduce((total, match) => total + match.coveredLength, 0);
+      toast({
+        title: matches.length > 0 ? 'Track matched' : 'No roads matched',
+        description: matches.length > 0
+          ? `${file.name} covered ${covered.toFixed(1)} km along ${matches.length} ${matches.length === 1 ? 'road' : 'roads'}.`
+          : `${file.name} doesn't follow any roads in ${areaName}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Track matching failed',
+        description: error instanceof SyntaxError
+          ? `${file.name} is not valid JSON.`
+          : (error as Error).message,
+      });
+    }
+  };
+
+  // Store the selected roads as the collection's highlights
+  const saveSelectionTo = async (target: Collection) => {
+    const highlights = sortedSelectedRoads.map((road) => ({
+      // Roads loaded from a saved highlight (rather than OSM) keep it by ID
+      id: road.id.startsWith('highlight-') ? Number(road.id.slice('highlight-'.length)) : undefined,
+      osmId: road.osmId,
+      name: road.name,
+      roadType: road.roadType,
+      length: road.length,
+      coordinates: road.coordinates,
+    }));
+
+    try {
+      const saved = await saveCollectionHighlights.mutateAsync({ collectionId: target.id, highlights });
+      onCollectionSaved(saved);
+      toast({
+        title: 'Collection saved',
+        description: `${target.name} now has ${saved.length} ${saved.length === 1 ? 'road' : 'roads'}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Saving collection failed',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  // A new collection starts out with the current selection
+  const handleCollectionCreated = async (created: Collection) => {
+    if (selectedCount > 0) {
+      await saveSelectionTo(created);
+    }
+    onCollectionChange(created.id);
+  };
+
+  const handleDeleteCollection = async () => {
+    if (!collection || !window.confirm(`Delete ${collection.name} and its highlighted roads?`)) return;
+
+    try {
+      await deleteCollection.mutateAsync(collection.id);
+      onCollectionChange(null);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Deleting collection failed',
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  // Download the current selection for GPS devices (GPX) or Google Earth (KML)
+  const handleDownloadSelection = (format: 'gpx' | 'kml') => {
+    const title = `${area?.name ?? 'Selected'} roads`;
+    if (format === 'gpx') {
+      downloadFile(toGpx(sortedSelectedRoads, title), 'selected-roads.gpx', 'application/gpx+xml');
+    } else {
+      downloadFile(toKml(sortedSelectedRoads, title), 'selected-roads.kml', 'application/vnd.google-earth.kml+xml');
+    }
+  };
+
+  // Read a GeoJSON file picked by the user and import its features as highlights
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const highlights = await importHighlights.mutateAsync(JSON.parse(await file.text()));
+      onHighlightsImported(highlights);
+      toast({
+        title: 'Highlights imported',
+        description: `Imported ${highlights.length} ${highlights.length === 1 ? 'road' : 'roads'} from ${file.name}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Import failed',
+        description: error instanceof SyntaxError
+          ? `${file.name} is not valid JSON.`
+          : (error as Error).message,
+      });
+    }
+  };
   
   // Sort selected roads by length (descending)
   const sortedSelectedRoads = Object.values(selectedRoads).sort((a, b) => b.length - a.length);
 
+  // Full length of the selected roads, including any parts outside the area
+  const fullLength = sortedSelectedRoads.reduce((total, road) => total + road.length, 0);
+  const areaName = area?.name ?? 'the area';
+
+  // Whether part of a road or street lies outside the area (beyond rounding)
+  const extendsOutside = (item: { length: number; inAreaLength?: number }) =>
+    item.inAreaLength !== undefined && item.length - item.inAreaLength >= 0.005;
+
   // Format OSM ID to be more readable and clickable
   const formatOsmId = (osmId: string) => {
     const parts = osmId.split('/');
@@ -68,15 +326,161 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       }`}
     >
       <CardHeader className="p-4 bg-primary text-white">
-        <h1 className="text-xl font-semibold flex items-center">
-          <Map className="h-6 w-6 mr-2" />
-          Wandsworth Road Highlighter
-        </h1>
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl font-semibold flex items-center">
+            <Map className="h-6 w-6 mr-2" />
+            {area ? `${area.name} ` : ''}Road Highlighter
+          </h1>
+          {user && (
+            <Button 
+              variant="ghost"
+              size="sm"
+              className="h-auto px-2 py-1 text-xs text-white hover:bg-white/20 hover:text-white"
+              title={`Log out ${user.username}`}
+              disabled={logout.isPending}
+              onClick={() => logout.mutate()}
+            >
+              <LogOut className="h-4 w-4 mr-1" />
+              {user.username}
+            </Button>
+          )}
+        </div>
       </CardHeader>
       
       <CardContent className="p-4 border-b border-gray-200">
+        {areas.length > 1 && (
+          <Select value={area?.id} onValueChange={onAreaChange}>
+            <SelectTrigger className="mb-3" aria-label="Area">
+              <SelectValue placeholder="Choose an area" />
+            </SelectTrigger>
+            <SelectContent>
+              {areas.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <RoadSearch areaId={area?.id} onPick={onSearchPick} />
+        
+        {workspace && (
+          <div className="flex space-x-2 mb-3">
+            <Select value={String(workspace.id)} onValueChange={(value) => onWorkspaceChange(Number(value))}>
+              <SelectTrigger className="flex-1" aria-label="Workspace">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaces.map((option) => (
+                  <SelectItem key={option.id} value={String(option.id)}>
+                    {option.name} <span className="text-gray-500">({ROLE_LABELS[option.role]})</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
+            <Button 
+              variant="outline"
+              size="icon"
+              title="Workspace members"
+              onClick={() => setWorkspaceDialogOpen(true)}
+            >
+              <Users className="h-4 w-4" />
+            </Button>
+            <WorkspaceDialog
+              open={workspaceDialogOpen}
+              onOpenChange={setWorkspaceDialogOpen}
+              workspace={workspace}
+              onWorkspaceChange={onWorkspaceChange}
+            />
+          </div>
+        )}
+        
+        <div className="flex space-x-2 mb-3">
+          <Select
+            value={collection ? String(collection.id) : 'none'}
+            onValueChange={(value) => onCollectionChange(value === 'none' ? null : Number(value))}
+          >
+            <SelectTrigger className="flex-1" aria-label="Collection">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No collection</SelectItem>
+              {collections.map((option) => (
+                <SelectItem key={option.id} value={String(option.id)}>
+                  <span className="flex items-center">
+                    <span
+                      className="w-3 h-3 rounded-full mr-2"
+                      style={{ backgroundColor: option.color }}
+                    ></span>
+                    {option.name}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          
+          {canEdit && (
+            <>
+              <Button 
+                variant="outline"
+                size="icon"
+                title="New collection"
+                onClick={() => setCollectionDialogOpen(true)}
+              >
+                <FolderPlus className="h-4 w-4" />
+              </Button>
+              <Button 
+                variant="outline"
+                size="icon"
+                title="Save selection to collection"
+                disabled={!collection || saveCollectionHighlights.isPending}
+                onClick={() => collection && saveSelectionTo(collection)}
+              >
+                <Save className="h-4 w-4" />
+              </Button>
+              <Button 
+                variant="outline"
+                size="icon"
+                title="Delete collection"
+                disabled={!collection || deleteCollection.isPending}
+                onClick={handleDeleteCollection}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+              <CollectionDialog
+                workspaceId={workspace?.id}
+                open={collectionDialogOpen}
+                onOpenChange={setCollectionDialogOpen}
+                onCreated={handleCollectionCreated}
+              />
+            </>
+          )}
+        </div>
+        
+        {collection?.description && (
+          <p className="text-gray-500 text-xs mb-3">{collection.description}</p>
+        )}
+        
+        {peers.length > 0 && (
+          <ul className="text-xs text-gray-600 mb-3 space-y-1">
+            {peers.map((peer) => (
+              <li key={peer.userId} className="flex items-center">
+                <span
+                  className="w-2 h-2 rounded-full mr-2"
+                  style={{ backgroundColor: peerColor(peer.userId) }}
+                ></span>
+                {peer.username} is here
+                {peer.selection.length > 0 &&
+                  `, selecting ${peer.selection.length} ${peer.selection.length === 1 ? 'road' : 'roads'}`}
+              </li>
+            ))}
+          </ul>
+        )}
+        
         <p className="text-gray-600 text-sm mb-3">
-          Click on any road in Wandsworth to highlight it and view details.
+          Click on any road in {area?.name ?? 'the area'} to highlight it and view details.
         </p>
         
         <div className="flex space-x-2">
@@ -98,6 +502,77 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             <X className="h-4 w-4 mr-1" />
             Clear Selection
           </Button>
+          
+          <Button 
+            variant="outline"
+            size="icon"
+            title="Copy a link to this view and selection"
+            disabled={!area}
+            onClick={onShare}
+          >
+            <Link2 className="h-4 w-4" />
+          </Button>
+        </div>
+        
+        <div className="flex space-x-2 mt-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button 
+                variant="outline"
+                className="flex-1 px-3 py-2 text-sm"
+                disabled={!workspace}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            {workspace && (
+              <DropdownMenuContent align="start">
+                {[['geojson', 'GeoJSON'], ['gpx', 'GPX tracks'], ['kml', 'KML placemarks']].map(([format, label]) => (
+                  <DropdownMenuItem key={format} asChild>
+                    <a href={`/api/highlights/export.${format}?workspace=${workspace.id}${collection ? `&collection=${collection.id}` : ''}`} download>
+                      {collection ? collection.name : 'Highlights'} as {label}
+                    </a>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            )}
+          </DropdownMenu>
+          
+          {canEdit && (
+            <Button 
+              variant="outline"
+              className="flex-1 px-3 py-2 text-sm"
+              disabled={importHighlights.isPending}
+              onClick={() => importInputRef.current?.click()}
+            >
+              <Upload className="h-4 w-4 mr-1" />
+              Import
+            </Button>
+          )}
+          <Button 
+            variant="outline"
+            className="flex-1 px-3 py-2 text-sm"
+            disabled={!area || matchTrack.isPending}
+            onClick={() => trackInputRef.current?.click()}
+          >
+            <Footprints className="h-4 w-4 mr-1" />
+            Track
+          </Button>
+          <input
+            ref={trackInputRef}
+            type="file"
+            accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json"
+            className="hidden"
+            onChange={handleTrackFile}
+          />
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".geojson,.json,application/geo+json,application/json"
+            className="hidden"
+            onChange={handleImportFile}
+          />
         </div>
       </CardContent>
       
@@ -131,9 +606,60 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   <div>
                     <div className="text-gray-500">Length</div>
                     <div className="font-medium text-gray-800">{selectedRoad.length.toFixed(2)} km</div>
+                    {extendsOutside(selectedRoad) && (
+                      <div className="text-xs text-gray-500">
+                        {selectedRoad.inAreaLength!.toFixed(2)} km inside {areaName}
+                      </div>
+                    )}
                   </div>
                 </div>
                 
+                {selectedStreet && (
+                  <div className="flex items-start mb-2">
+                    <Route className="h-4 w-4 mr-2 mt-0.5 text-gray-500" />
+                    <div>
+                      <div className="text-gray-500">Whole Street</div>
+                      <div className="font-medium text-gray-800">
+                        {selectedStreet.length.toFixed(2)} km in {selectedStreet.roadIds.length} {selectedStreet.roadIds.length === 1 ? 'way' : 'ways'}
+                      </div>
+                      {extendsOutside(selectedStreet) && (
+                        <div className="text-xs text-gray-500">
+                          {selectedStreet.inAreaLength!.toFixed(2)} km inside {areaName}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+                
+                {coverage[selectedRoad.id] && (
+                  <div className="flex items-start mb-2">
+                    <CheckCircle2 className="h-4 w-4 mr-2 mt-0.5 text-gray-500" />
+                    <div className="flex-1">
+                      <div className="text-gray-500">Coverage</div>
+                      <div className="font-medium text-gray-800">
+                        {COVERAGE_LABELS[coverage[selectedRoad.id].status]} on {coverage[selectedRoad.id].completedAt}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        by {coverage[selectedRoad.id].completedBy}
+                        {coverage[selectedRoad.id].status === 'partial' &&
+                          `, ${coverage[selectedRoad.id].coveredLength.toFixed(2)} km covered`}
+                      </div>
+                    </div>
+                    {canEdit && (
+                      <Button 
+                        variant="ghost"
+                        size="sm"
+                        className="p-1 h-auto"
+                        title="Clear coverage"
+                        disabled={deleteCoverage.isPending}
+                        onClick={() => handleClearCoverage(selectedRoad.id)}
+                      >
+                        <X className="h-4 w-4 text-gray-500" />
+                      </Button>
+                    )}
+                  </div>
+                )}
+                
                 <div className="flex items-start">
                   <MapPin className="h-4 w-4 mr-2 mt-0.5 text-gray-500" />
                   <div>
@@ -150,9 +676,22 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 </div>
               </div>
               
+              {selectedHighlight ? (
+                <HighlightEditForm
+                  workspaceId={workspace?.id}
+                  highlight={selectedHighlight}
+                  defaultColor={collection?.color ?? '#F97316'}
+                  readOnly={!canEdit}
+                />
+              ) : canEdit && selectedRoads[selectedRoad.id] && (
+                <p className="text-xs text-gray-500 mb-3">
+                  Save the selection to a collection to add notes, a status and tags to this road.
+                </p>
+              )}
+              
               <Button 
                 className="w-full px-3 py-2 bg-primary hover:bg-blue-600 text-white"
-                onClick={onFocusRoad}
+                onClick={() => onFocusRoads([selectedRoad])}
               >
                 <Search className="h-4 w-4 mr-1" />
                 Focus on Road
@@ -161,33 +700,65 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             
             <TabsContent value="all" className="mt-0">
               {selectedCount > 0 ? (
-                <div className="max-h-60 overflow-y-auto pr-1">
-                  <ul className="space-y-2">
-                    {sortedSelectedRoads.map((road) => (
-                      <li 
-                        key={road.id} 
-                        className="p-2 bg-gray-50 rounded-md hover:bg-gray-100 cursor-pointer"
-                        onClick={() => {
-                          onFocusRoad();
-                        }}
-                      >
-                        <div className="flex justify-between items-center">
-                          <div className="font-medium text-gray-800 truncate mr-2" title={road.name}>
-                            {road.name}
+                <>
+                  <div className="max-h-60 overflow-y-auto pr-1">
+                    <ul className="space-y-2">
+                      {sortedSelectedRoads.map((road) => (
+                        <li 
+                          key={road.id} 
+                          className="p-2 bg-gray-50 rounded-md hover:bg-gray-100 cursor-pointer"
+                          title="Show on map"
+                          onClick={() => onFocusRoads([road])}
+                        >
+                          <div className="flex justify-between items-center">
+                            <div className="font-medium text-gray-800 truncate mr-2" title={road.name}>
+                              {road.name}
+                            </div>
+                            <Badge 
+                              className={`${ROAD_TYPE_COLORS[road.roadType] || 'bg-gray-500'} min-w-min text-xs`}
+                            >
+                              {road.roadType}
+                            </Badge>
                           </div>
-                          <Badge 
-                            className={`${ROAD_TYPE_COLORS[road.roadType] || 'bg-gray-500'} min-w-min text-xs`}
-                          >
-                            {road.roadType}
-                          </Badge>
-                        </div>
-                        <div className="text-xs text-gray-500 mt-1">
-                          Length: {road.length.toFixed(2)} km
-                        </div>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            Length: {road.length.toFixed(2)} km
+                            {extendsOutside(road) && ` (${road.inAreaLength!.toFixed(2)} km inside)`}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  
+                  <div className="flex space-x-2 mt-3">
+                    <Button 
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 text-xs"
+                      onClick={() => onFocusRoads(sortedSelectedRoads)}
+                    >
+                      <Search className="h-3 w-3 mr-1" />
+                      Show All
+                    </Button>
+                    <Button 
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 text-xs"
+                      onClick={() => handleDownloadSelection('gpx')}
+                    >
+                      <Download className="h-3 w-3 mr-1" />
+                      GPX
+                    </Button>
+                    <Button 
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 text-xs"
+                      onClick={() => handleDownloadSelection('kml')}
+                    >
+                      <Download className="h-3 w-3 mr-1" />
+                      KML
+                    </Button>
+                  </div>
+                </>
               ) : (
                 <div className="text-center text-gray-500 py-6">
                   No roads selected yet
@@ -225,13 +796,75 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
           
           <div className="bg-white rounded-md p-2">
-            <div className="text-xs text-gray-500">Total Length</div>
+            <div className="text-xs text-gray-500">Length in {areaName}</div>
             <div className="font-medium text-gray-800 text-lg">
               {totalLength.toFixed(1)} km
             </div>
+            {fullLength - totalLength >= 0.05 && (
+              <div className="text-xs text-gray-500">{fullLength.toFixed(1)} km in total</div>
+            )}
           </div>
         </div>
         
+        <div className="mt-3 pt-3 border-t border-gray-200">
+          <h4 className="text-xs font-medium text-gray-600 mb-2 flex items-center">
+            <Trophy className="h-3 w-3 mr-1" />
+            Every Street Challenge
+          </h4>
+          
+          {coverageProgress ? (
+            <div className="space-y-2">
+              <div>
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span>{coverageProgress.fullRoads} of {coverageProgress.totalRoads} roads completed</span>
+                  <span className="font-medium">{coverageProgress.percentByCount.toFixed(1)}%</span>
+                </div>
+                <Progress value={coverageProgress.percentByCount} className="h-2" />
+              </div>
+              <div>
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span>
+                    {coverageProgress.coveredLength.toFixed(1)} of {coverageProgress.totalLength.toFixed(1)} km covered
+                  </span>
+                  <span className="font-medium">{coverageProgress.percentByLength.toFixed(1)}%</span>
+                </div>
+                <Progress value={coverageProgress.percentByLength} className="h-2" />
+              </div>
+              {coverageProgress.partialRoads > 0 && (
+                <div className="text-xs text-gray-500">
+                  {coverageProgress.partialRoads} {coverageProgress.partialRoads === 1 ? 'road' : 'roads'} partly covered
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="text-xs text-gray-500">Progress appears once {areaName}'s roads have loaded.</div>
+          )}
+          
+          {canEdit && (
+            <div className="flex space-x-2 mt-3">
+              <Button 
+                variant="outline"
+                size="sm"
+                className="flex-1 text-xs"
+                disabled={selectedCount === 0 || saveCoverage.isPending}
+                onClick={() => handleMarkCoverage('full')}
+              >
+                <CheckCircle2 className="h-3 w-3 mr-1" />
+                Mark Done
+              </Button>
+              <Button 
+                variant="outline"
+                size="sm"
+                className="flex-1 text-xs"
+                disabled={selectedCount === 0 || saveCoverage.isPending}
+                onClick={() => handleMarkCoverage('partial')}
+              >
+                Mark Partial
+              </Button>
+            </div>
+          )}
+        </div>
+        
         {selectedRoadsExpanded && selectedCount > 0 && (
           <div className="mt-3 pt-3 border-t border-gray-200">
             <h4 className="text-xs font-medium text-gray-600 mb-2">Road Types</h4>
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RoadHighlight, HighlightStatus, highlightStatuses } from '@shared/schema';
+import { useUpdateHighlight } from '@/hooks/useMapData';
+import { toast } from '@/hooks/use-toast';
+import { Save } from 'lucide-react';
+
+interface HighlightEditFormProps {
+  workspaceId: number | undefined;
+  highlight: RoadHighlight;
+  defaultColor: string; // Shown while the highlight has no colour of its own
+  readOnly: boolean; // For workspace viewers, who can't change highlights
+}
+
+const STATUS_LABELS: Record<HighlightStatus, string> = {
+  'planned': 'Planned',
+  'in-progress': 'In progress',
+  'done': 'Done',
+};
+
+// Tags are edited as one comma-separated line
+function parseTags(text: string): string[] {
+  return Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
+}
+
+const HighlightEditForm: React.FC<HighlightEditFormProps> = ({
+  workspaceId,
+  highlight,
+  defaultColor,
+  readOnly,
+}) => {
+  const [notes, setNotes] = useState(highlight.notes);
+  const [status, setStatus] = useState<HighlightStatus>(highlight.status);
+  const [color, setColor] = useState<string | null>(highlight.color);
+  const [tags, setTags] = useState(highlight.tags.join(', '));
+  const updateHighlight = useUpdateHighlight(workspaceId);
+
+  // Start over from the saved values when another highlight (or a newer
+  // version of this one) comes in
+  useEffect(() => {
+    setNotes(highlight.notes);
+    setStatus(highlight.status);
+    setColor(highlight.color);
+    setTags(highlight.tags.join(', '));
+  }, [highlight.id, highlight.version]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      await updateHighlight.mutateAsync({
+        id: highlight.id,
+        version: highlight.version,
+        notes,
+        status,
+        color,
+        tags: parseTags(tags),
+      });
+      toast({ title: 'Highlight saved' });
+    } catch (error) {
+      const conflict = (error as Error).message.startsWith('409');
+      toast({
+        variant: 'destructive',
+        title: conflict ? 'Highlight changed elsewhere' : 'Saving highlight failed',
+        description: conflict
+          ? 'Someone else edited this road first. Their changes have been loaded; please edit again.'
+          : (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <form className="space-y-2 mb-3" onSubmit={handleSubmit}>
+      <fieldset className="space-y-2" disabled={readOnly}>
+        <div className="flex space-x-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="highlight-status" className="text-xs text-gray-500">Status</Label>
+            <Select value={status} disabled={readOnly} onValueChange={(value) => setStatus(value as HighlightStatus)}>
+              <SelectTrigger id="highlight-status" className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {highlightStatuses.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {STATUS_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="highlight-color" className="text-xs text-gray-500">Colour</Label>
+            <div className="flex items-center">
+              <Input
+                id="highlight-color"
+                type="color"
+                className="h-8 w-12 p-1"
+                value={color ?? defaultColor}
+                onChange={(e) => setColor(e.target.value)}
+              />
+              {color && !readOnly && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 text-xs"
+                  onClick={() => setColor(null)}
+                >
+                  Reset
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="highlight-tags" className="text-xs text-gray-500">Tags</Label>
+          <Input
+            id="highlight-tags"
+            className="h-8 text-sm"
+            placeholder="e.g. flats, no letterbox"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="highlight-notes" className="text-xs text-gray-500">Notes</Label>
+          <Textarea
+            id="highlight-notes"
+            className="text-sm"
+            rows={3}
+            maxLength={2000}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+      </fieldset>
+
+      {!readOnly && (
+        <Button
+          type="submit"
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={updateHighlight.isPending}
+        >
+          <Save className="h-4 w-4 mr-1" />
+          Save Notes
+        </Button>
+      )}
+    </form>
+  );
+};
+
+export default HighlightEditForm;
@@ -1,40 +1,90 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { Road } from '@shared/schema';
+import { Road, Boundary, Area, RoadCoverage, Presence } from '@shared/schema';
+import { VECTOR_TILE_MAX_ZOOM } from '@shared/roadDetail';
+import { RoadTileLayer, type TileRoad } from '@/lib/roadTileLayer';
+import { fetchRoad } from '@/hooks/useMapData';
+
+// Whether a click on the map selects the single OSM way or its whole street
+export type SelectionMode = 'way' | 'street';
+
+// What road colours show: the type of road, or progress of the street challenge
+export type ColorMode = 'roadType' | 'coverage';
+
+export type MapBounds = {
+  swLat: number;
+  swLng: number;
+  neLat: number;
+  neLng: number;
+};
+
+export type ViewportOptions = {
+  animate?: boolean; // Defaults to animating unless the user prefers reduced motion
+  maxZoom?: number; // Closest zoom to fit bounds at
+};
+
+// Moves the map on request, e.g. from the Reset and Focus buttons or a search
+export interface MapViewport {
+  fitBounds: (bounds: MapBounds, options?: ViewportOptions) => void;
+  flyTo: (center: [number, number], zoom?: number, options?: ViewportOptions) => void;
+  resetToArea: (options?: ViewportOptions) => void;
+}
 
 type MapContainerProps = {
   onRoadSelect: (road: Road | null) => void;
   selectedRoads: Record<string, Road>;
-  setMapBounds: (bounds: {
-    swLat: number;
-    swLng: number;
-    neLat: number;
-    neLng: number;
-  }) => void;
+  setMapBounds: (bounds: MapBounds) => void;
   roads: Road[];
+  area: Area;
+  initialView?: { center: [number, number]; zoom: number }; // Where to open instead of the area's centre
+  onViewChange: (center: [number, number], zoom: number) => void;
+  boundary?: Boundary;
+  selectionMode: SelectionMode;
+  onSelectionModeChange: (mode: SelectionMode) => void;
+  colorMode: ColorMode;
+  onColorModeChange: (mode: ColorMode) => void;
+  coverage: Record<string, RoadCoverage>; // Coverage records by road ID
+  selectionColor?: string; // Colour of the active collection
+  highlightColors: Record<string, string>; // Custom colours of highlighted roads by road ID
+  peers: Presence[]; // Teammates looking at the same collection
+  onCursorMove: (cursor: [number, number] | null) => void;
+};
+
+// Closest zoom a road or street is focused at, leaving some of its surroundings in view
+const FOCUS_MAX_ZOOM = 17;
+
+// Margin in pixels kept around fitted bounds
+const FIT_PADDING: [number, number] = [40, 40];
+
+// Seconds a fly-to animation takes
+const FLY_DURATION = 0.8;
+
+function prefersReducedMotion(): boolean {
+  return window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+}
+
+// Style for the borough boundary outline
+const BOUNDARY_STYLE: L.PolylineOptions = {
+  color: '#3B82F6',
+  weight: 3,
+  opacity: 0.7,
+  fill: true,
+  fillColor: '#3B82F6',
+  fillOpacity: 0.05,
+  interactive: false,
 };
 
-// Define the Wandsworth borough bounds (using Leaflet LatLngTuple format)
-const WANDSWORTH_BOUNDS: L.LatLngBoundsLiteral = [
-  [51.4232, -0.2392], // Southwest
-  [51.4910, -0.1462], // Northeast
-];
-
-// Define the Wandsworth center coordinates
-const WANDSWORTH_CENTER: L.LatLngTuple = [51.4571, -0.1927];
-
-// Define the Wandsworth boundary polygon for visual reference
-const WANDSWORTH_BOUNDARY: L.LatLngTuple[] = [
-  [51.4566, -0.2392],
-  [51.4910, -0.2109],
-  [51.4851, -0.1681],
-  [51.4708, -0.1462],
-  [51.4396, -0.1496],
-  [51.4232, -0.1814],
-  [51.4274, -0.2188],
-  [51.4566, -0.2392],
-];
+// Draw the boundary and keep panning within (a little beyond) its extent
+function drawBoundary(map: L.Map, boundary: Boundary): L.Polygon {
+  const { swLat, swLng, neLat, neLng } = boundary.bounds;
+  map.setMaxBounds(L.latLngBounds([swLat, swLng], [neLat, neLng]).pad(0.1));
+
+  return L.polygon(boundary.rings, {
+    ...BOUNDARY_STYLE,
+    dashArray: boundary.approximate ? '6 6' : undefined,
+  }).addTo(map).bringToBack();
+}
 
 // Color mapping for different road types
 const ROAD_TYPE_COLORS: Record<string, string> = {
@@ -48,28 +98,169 @@ const ROAD_TYPE_COLORS: Record<string, string> = {
   'Other': '#A0AEC0', // Light gray
 };
 
-const MapContainer: React.FC<MapContainerProps> = ({
+// Road types still shown when minor roads are hidden
+const MAJOR_ROAD_TYPES = ['Motorway', 'Primary', 'Secondary', 'Tertiary'];
+
+// Colours of the coverage mode
+const COVERAGE_COLORS = {
+  full: '#16A34A', // Green
+  partial: '#F59E0B', // Amber
+  untouched: '#9CA3AF', // Gray
+};
+
+// Colour of selected roads outside of a collection
+const DEFAULT_SELECTION_COLOR = '#F97316';
+
+// Style of a road on the map, shared by the polyline and vector tile paths.
+// In coverage mode, `coverage` is the road's record (null when untouched).
+function roadStyle(
+  roadType: string,
+  selected: boolean,
+  coverage?: RoadCoverage | null,
+  selectionColor = DEFAULT_SELECTION_COLOR
+) {
+  const baseColor = coverage === undefined
+    ? ROAD_TYPE_COLORS[roadType] || '#3388ff'
+    : COVERAGE_COLORS[coverage?.status ?? 'untouched'];
+
+  return {
+    color: selected ? selectionColor : baseColor,
+    weight: selected ? 6 : roadType === 'Primary' ? 4 : roadType === 'Secondary' ? 3 : 2,
+    opacity: selected ? 0.8 : 0.7,
+  };
+}
+
+// Colours telling teammates apart, picked by user ID
+const PEER_COLORS = ['#DB2777', '#7C3AED', '#0891B2', '#65A30D', '#CA8A04', '#DC2626'];
+
+export function peerColor(userId: number): string {
+  return PEER_COLORS[userId % PEER_COLORS.length];
+}
+
+// Label of the minor roads button, describing what clicking it does
+function minorRoadsLabel(showAllRoads: boolean): string {
+  return showAllRoads ? 'Hide Minor Roads' : 'Show All Roads';
+}
+
+// Label of the selection mode button, describing the current mode
+function selectionModeLabel(mode: SelectionMode): string {
+  return mode === 'street' ? 'Selecting: Whole Streets' : 'Selecting: Single Ways';
+}
+
+// Label of the colour mode button, describing the current mode
+function colorModeLabel(mode: ColorMode): string {
+  return mode === 'coverage' ? 'Colours: Coverage' : 'Colours: Road Type';
+}
+
+// Line weight of a road under the pointer
+function hoverWeight(roadType: string): number {
+  return roadType === 'Primary' ? 6 : roadType === 'Secondary' ? 5 : 4;
+}
+
+// A road drawn as its own polyline, with the style last applied to it
+type RoadLayer = {
+  road: Road;
+  line: L.Polyline;
+  style: ReturnType<typeof roadStyle>;
+};
+
+function sameStyle(a: RoadLayer['style'], b: RoadLayer['style']): boolean {
+  return a.color === b.color && a.weight === b.weight && a.opacity === b.opacity;
+}
+
+// Add a button to a map control that doesn't pass clicks on to the map
+function createMapButton(parent: HTMLElement, label: string, onClick: () => void): HTMLButtonElement {
+  const button = L.DomUtil.create(
+    'button',
+    'bg-white p-2 shadow-md rounded-md border border-gray-300 hover:bg-gray-100 text-xs m-2',
+    parent
+  ) as HTMLButtonElement;
+  button.style.cssText = 'width: auto; height: auto; line-height: 1; display: block;';
+  button.textContent = label;
+  button.addEventListener('click', (e: Event) => {
+    e.stopPropagation();
+    onClick();
+  });
+  return button;
+}
+
+const MapContainer = forwardRef<MapViewport, MapContainerProps>(({
   onRoadSelect,
   selectedRoads,
   setMapBounds,
   roads,
-}) => {
+  area,
+  boundary,
+  selectionMode,
+  onSelectionModeChange,
+  colorMode,
+  onColorModeChange,
+  coverage,
+  selectionColor,
+  highlightColors,
+  peers,
+  onCursorMove,
+  initialView,
+  onViewChange,
+}, ref) => {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
-  const roadLayersRef = useRef<Record<string, L.Polyline>>({});
+  const roadLayersRef = useRef<Record<string, RoadLayer>>({});
+  // One canvas draws every road polyline, which keeps thousands of them responsive
+  const rendererRef = useRef<L.Canvas | null>(null);
+  const boundaryLayerRef = useRef<L.Polygon | null>(null);
+  const boundaryRef = useRef(boundary);
+  boundaryRef.current = boundary;
+  const areaRef = useRef(area);
+  areaRef.current = area;
+  const initialViewRef = useRef(initialView);
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
+  // Area the map is showing, so it only jumps when another one is picked
+  const shownAreaIdRef = useRef<string | null>(null);
+  const selectionModeButtonRef = useRef<HTMLButtonElement | null>(null);
+  const selectionModeRef = useRef(selectionMode);
+  selectionModeRef.current = selectionMode;
+  const onSelectionModeChangeRef = useRef(onSelectionModeChange);
+  onSelectionModeChangeRef.current = onSelectionModeChange;
+  const colorModeButtonRef = useRef<HTMLButtonElement | null>(null);
+  const minorRoadsButtonRef = useRef<HTMLButtonElement | null>(null);
+  const colorModeRef = useRef(colorMode);
+  colorModeRef.current = colorMode;
+  const onColorModeChangeRef = useRef(onColorModeChange);
+  onColorModeChangeRef.current = onColorModeChange;
+  const coverageRef = useRef(coverage);
+  coverageRef.current = coverage;
+  const selectionColorRef = useRef(selectionColor);
+  selectionColorRef.current = selectionColor;
+  const highlightColorsRef = useRef(highlightColors);
+  highlightColorsRef.current = highlightColors;
   const [showAllRoads, setShowAllRoads] = useState(true);
+  const showAllRoadsRef = useRef(showAllRoads);
+  showAllRoadsRef.current = showAllRoads;
+  const selectedRoadsRef = useRef(selectedRoads);
+  selectedRoadsRef.current = selectedRoads;
+  const roadsRef = useRef(roads);
+  roadsRef.current = roads;
+  const onRoadSelectRef = useRef(onRoadSelect);
+  onRoadSelectRef.current = onRoadSelect;
+  const tileLayerRef = useRef<RoadTileLayer | null>(null);
+  const onCursorMoveRef = useRef(onCursorMove);
+  onCursorMoveRef.current = onCursorMove;
+  const peerLayerRef = useRef<L.LayerGroup | null>(null);
+  const [zoom, setZoom] = useState(area.zoom.initial);
 
   // Initialize map when component mounts
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return;
 
     // Initialize Leaflet map
+    const { center, zoom } = areaRef.current;
     const map = L.map(mapContainerRef.current, {
-      center: WANDSWORTH_CENTER,
-      zoom: 14,
-      minZoom: 12,
-      maxZoom: 19,
-      maxBounds: WANDSWORTH_BOUNDS,
+      center: initialViewRef.current?.center ?? center,
+      zoom: initialViewRef.current?.zoom ?? zoom.initial,
+      minZoom: zoom.min,
+      maxZoom: zoom.max,
       maxBoundsViscosity: 0.9,
     });
 
@@ -80,41 +271,98 @@ const MapContainer: React.FC<MapContainerProps> = ({
       maxZoom: 19,
     }).addTo(map);
 
-    // Add Wandsworth borough boundary
-    const boundaryStyle = {
-      color: '#3B82F6',
-      weight: 3,
-      opacity: 0.7,
-      fill: true,
-      fillColor: '#3B82F6',
-      fillOpacity: 0.05,
+    // Draw roads from vector tiles at lower zooms
+    const tileLayer = new RoadTileLayer({
+      areaId: areaRef.current.id,
+      maxZoom: VECTOR_TILE_MAX_ZOOM,
+      style: (road: TileRoad, selected: boolean) => roadStyle(
+        road.roadType,
+        selected,
+        colorModeRef.current === 'coverage' ? coverageRef.current[road.roadId] ?? null : undefined,
+        highlightColorsRef.current[road.roadId] ?? selectionColorRef.current
+      ),
+      isSelected: (roadId: string) => !!selectedRoadsRef.current[roadId],
+      isVisible: (road: TileRoad) => showAllRoadsRef.current || MAJOR_ROAD_TYPES.includes(road.roadType),
+    }).addTo(map);
+    tileLayerRef.current = tileLayer;
+
+    // Resolve clicks on tile roads to the full road, preferring the loaded ones
+    const selectTileRoad = async (latlng: L.LatLng) => {
+      const hit = tileLayer.roadAt(latlng);
+      if (!hit) return;
+
+      try {
+        const road = roadsRef.current.find(r => r.id === hit.roadId && !r.simplified) ??
+          await fetchRoad(areaRef.current.id, hit.roadId);
+        onRoadSelectRef.current(road);
+      } catch (error) {
+        console.error('Error fetching clicked road:', error);
+      }
     };
 
-    L.polygon(WANDSWORTH_BOUNDARY, boundaryStyle).addTo(map);
-
-    // Add custom button for toggling road visibility
-    const buttonContainer = L.DomUtil.create('div', 'leaflet-bottom leaflet-left');
-    const buttonControl = L.DomUtil.create('div', 'leaflet-control');
-    
-    buttonControl.innerHTML = `
-      <button 
-        class="bg-white p-2 shadow-md rounded-md border border-gray-300 hover:bg-gray-100 text-xs m-2"
-        style="width: auto; height: auto; line-height: 1; display: block;"
-      >
-        ${showAllRoads ? 'Hide Minor Roads' : 'Show All Roads'}
-      </button>
-    `;
-    
-    buttonControl.querySelector('button')?.addEventListener('click', (e: Event) => {
-      e.stopPropagation();
-      setShowAllRoads(!showAllRoads);
+    map.on('click', (e: L.LeafletMouseEvent) => {
+      if (map.getZoom() <= VECTOR_TILE_MAX_ZOOM) selectTileRoad(e.latlng);
     });
-    
-    buttonContainer.appendChild(buttonControl);
-    map.getContainer().appendChild(buttonContainer);
+
+    // Show a pointer over clickable tile roads, and share where it is
+    map.on('mousemove', (e: L.LeafletMouseEvent) => {
+      onCursorMoveRef.current([e.latlng.lat, e.latlng.lng]);
+      if (map.getZoom() > VECTOR_TILE_MAX_ZOOM) return;
+      map.getContainer().style.cursor = tileLayer.roadAt(e.latlng) ? 'pointer' : '';
+    });
+
+    map.on('mouseout', () => onCursorMoveRef.current(null));
+
+    // Teammates' pointers
+    peerLayerRef.current = L.layerGroup().addTo(map);
+
+    map.on('zoomend', () => {
+      map.getContainer().style.cursor = '';
+      setZoom(map.getZoom());
+    });
+
+    // Add the area boundary if it has already loaded
+    if (boundaryRef.current) {
+      boundaryLayerRef.current = drawBoundary(map, boundaryRef.current);
+    }
+
+    rendererRef.current = L.canvas({ padding: 0.5 });
+
+    // Map buttons, as a Leaflet control so they sit with the map's other
+    // controls and clicks on them don't reach the map
+    const buttonControl = new L.Control({ position: 'bottomleft' });
+    buttonControl.onAdd = () => {
+      const container = L.DomUtil.create('div');
+      L.DomEvent.disableClickPropagation(container);
+
+      // Button for showing or hiding minor roads
+      minorRoadsButtonRef.current = createMapButton(
+        container,
+        minorRoadsLabel(showAllRoadsRef.current),
+        () => setShowAllRoads(show => !show)
+      );
+
+      // Button for switching between selecting single ways and whole streets
+      selectionModeButtonRef.current = createMapButton(
+        container,
+        selectionModeLabel(selectionModeRef.current),
+        () => onSelectionModeChangeRef.current(selectionModeRef.current === 'way' ? 'street' : 'way')
+      );
+
+      // Button for switching road colours between type and coverage
+      colorModeButtonRef.current = createMapButton(
+        container,
+        colorModeLabel(colorModeRef.current),
+        () => onColorModeChangeRef.current(colorModeRef.current === 'roadType' ? 'coverage' : 'roadType')
+      );
+
+      return container;
+    };
+    buttonControl.addTo(map);
 
     // Set map reference
     mapRef.current = map;
+    shownAreaIdRef.current = areaRef.current.id;
 
     // Set initial bounds
     const bounds = map.getBounds();
@@ -124,6 +372,7 @@ const MapContainer: React.FC<MapContainerProps> = ({
       neLat: bounds.getNorth(),
       neLng: bounds.getEast(),
     });
+    onViewChangeRef.current([map.getCenter().lat, map.getCenter().lng], map.getZoom());
 
     // Update bounds when map moves
     map.on('moveend', () => {
@@ -134,96 +383,231 @@ const MapContainer: React.FC<MapContainerProps> = ({
         neLat: newBounds.getNorth(),
         neLng: newBounds.getEast(),
       });
+      onViewChangeRef.current([map.getCenter().lat, map.getCenter().lng], map.getZoom());
     });
 
     // Clean up on unmount
     return () => {
       map.remove();
       mapRef.current = null;
+      boundaryLayerRef.current = null;
+      selectionModeButtonRef.current = null;
+      colorModeButtonRef.current = null;
+      minorRoadsButtonRef.current = null;
+      tileLayerRef.current = null;
+      peerLayerRef.current = null;
+      rendererRef.current = null;
+      roadLayersRef.current = {};
     };
-  }, [setMapBounds, showAllRoads]);
+  }, [setMapBounds]);
 
-  // Add roads to map when roads data changes
+  // Keep the minor roads button's label in sync
   useEffect(() => {
-    if (!mapRef.current) return;
+    if (minorRoadsButtonRef.current) {
+      minorRoadsButtonRef.current.textContent = minorRoadsLabel(showAllRoads);
+    }
+  }, [showAllRoads]);
 
-    // Clear existing road layers
-    Object.values(roadLayersRef.current).forEach((layer) => {
-      layer.remove();
+  // Keep the selection mode button's label in sync
+  useEffect(() => {
+    if (selectionModeButtonRef.current) {
+      selectionModeButtonRef.current.textContent = selectionModeLabel(selectionMode);
+    }
+  }, [selectionMode]);
+
+  // Keep the colour mode button's label in sync
+  useEffect(() => {
+    if (colorModeButtonRef.current) {
+      colorModeButtonRef.current.textContent = colorModeLabel(colorMode);
+    }
+  }, [colorMode]);
+
+  // Move to the area when the user switches to another one
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || shownAreaIdRef.current === area.id) return;
+    shownAreaIdRef.current = area.id;
+
+    // Drop the previous area's pan limits first or they would pull the view back
+    map.setMaxBounds(undefined);
+    map.setMinZoom(area.zoom.min);
+    map.setMaxZoom(area.zoom.max);
+    map.setView(area.center, area.zoom.initial);
+    tileLayerRef.current?.setArea(area.id);
+  }, [area]);
+
+  // Let the page move the map; the moveend handler then loads roads for the new view
+  useImperativeHandle(ref, () => {
+    const fitBounds = ({ swLat, swLng, neLat, neLng }: MapBounds, options: ViewportOptions = {}) => {
+      const map = mapRef.current;
+      if (!map) return;
+
+      const target = L.latLngBounds([swLat, swLng], [neLat, neLng]);
+      const fitOptions = { padding: FIT_PADDING, maxZoom: options.maxZoom ?? FOCUS_MAX_ZOOM };
+      if (options.animate ?? !prefersReducedMotion()) {
+        map.flyToBounds(target, { ...fitOptions, duration: FLY_DURATION });
+      } else {
+        map.fitBounds(target, { ...fitOptions, animate: false });
+      }
+    };
+
+    const flyTo = (center: [number, number], zoom?: number, options: ViewportOptions = {}) => {
+      const map = mapRef.current;
+      if (!map) return;
+
+      if (options.animate ?? !prefersReducedMotion()) {
+        map.flyTo(center, zoom ?? map.getZoom(), { duration: FLY_DURATION });
+      } else {
+        map.setView(center, zoom ?? map.getZoom(), { animate: false });
+      }
+    };
+
+    // Show the whole area: its boundary once loaded, otherwise its configured view
+    const resetToArea = (options: ViewportOptions = {}) => {
+      const { center, zoom } = areaRef.current;
+      if (boundaryRef.current) {
+        fitBounds(boundaryRef.current.bounds, { maxZoom: zoom.initial, ...options });
+      } else {
+        flyTo(center, zoom.initial, options);
+      }
+    };
+
+    return { fitBounds, flyTo, resetToArea };
+  }, []);
+
+  // Draw the area boundary once it loads, clearing the previous area's outline
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    boundaryLayerRef.current?.remove();
+    boundaryLayerRef.current = null;
+
+    if (boundary) {
+      boundaryLayerRef.current = drawBoundary(map, boundary);
+    } else {
+      map.setMaxBounds(undefined);
+    }
+  }, [boundary]);
+
+  // Mark where each teammate's pointer is
+  useEffect(() => {
+    const layer = peerLayerRef.current;
+    if (!layer) return;
+
+    layer.clearLayers();
+    peers.forEach(({ userId, username, cursor }) => {
+      if (!cursor) return;
+      L.circleMarker(cursor, {
+        radius: 5,
+        color: '#FFFFFF',
+        weight: 2,
+        fillColor: peerColor(userId),
+        fillOpacity: 1,
+        interactive: false,
+      })
+        .bindTooltip(username, { permanent: true, direction: 'right', offset: [6, 0], className: 'text-xs' })
+        .addTo(layer);
     });
-    roadLayersRef.current = {};
+  }, [peers]);
 
-    // Filter minor roads if needed
-    const roadsToDisplay = showAllRoads 
-      ? roads 
-      : roads.filter(road => {
-          return ['Motorway', 'Primary', 'Secondary', 'Tertiary'].includes(road.roadType);
-        });
+  // Repaint tile roads when the selection, colours or minor road visibility change
+  useEffect(() => {
+    tileLayerRef.current?.repaint();
+  }, [selectedRoads, showAllRoads, colorMode, coverage, selectionColor, highlightColors]);
+
+  // Current style of a road, from the selection and colour settings
+  const styleOfRoad = (road: Road) => roadStyle(
+    road.roadType,
+    !!selectedRoadsRef.current[road.id],
+    colorModeRef.current === 'coverage' ? coverageRef.current[road.id] ?? null : undefined,
+    highlightColorsRef.current[road.id] ?? selectionColorRef.current
+  );
+
+  // Draw the loaded roads as polylines above the vector tile zooms, adding and
+  // removing only the roads that came into or went out of view
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const visibleRoads = zoom <= VECTOR_TILE_MAX_ZOOM ? [] : showAllRoads
+      ? roads
+      : roads.filter(road => MAJOR_ROAD_TYPES.includes(road.roadType));
+    const visibleIds = new Set(visibleRoads.map(road => road.id));
+    const layers = roadLayersRef.current;
+
+    Object.keys(layers).forEach((roadId) => {
+      if (!visibleIds.has(roadId)) {
+        layers[roadId].line.remove();
+        delete layers[roadId];
+      }
+    });
+
+    // Roads a hover on the given road highlights: the whole street when selecting by street
+    const hoverTargets = (road: Road): RoadLayer[] => {
+      if (selectionModeRef.current === 'way' || !road.streetId) return [roadLayersRef.current[road.id]];
+      return Object.values(roadLayersRef.current).filter(layer => layer.road.streetId === road.streetId);
+    };
 
-    // Add roads to map
-    roadsToDisplay.forEach((road) => {
-      const isSelected = !!selectedRoads[road.id];
-      const defaultColor = ROAD_TYPE_COLORS[road.roadType] || '#3388ff';
-      
-      const roadLayer = L.polyline(road.coordinates, {
-        color: isSelected ? '#F97316' : defaultColor,
-        weight: isSelected ? 6 : road.roadType === 'Primary' ? 4 : road.roadType === 'Secondary' ? 3 : 2,
-        opacity: isSelected ? 0.8 : 0.7,
-      }).addTo(mapRef.current!);
-
-      // Create a tooltip with road info
-      roadLayer.bindTooltip(`
+    visibleRoads.forEach((road) => {
+      const existing = layers[road.id];
+      if (existing) {
+        // A refetched road may have new geometry (another level of detail, a
+        // refreshed master cache), so redraw it with whatever was fetched
+        if (existing.road !== road) {
+          existing.line.setLatLngs(road.coordinates);
+          existing.road = road;
+        }
+        return;
+      }
+
+      const style = styleOfRoad(road);
+      const line = L.polyline(road.coordinates, { ...style, renderer: rendererRef.current! }).addTo(map);
+
+      line.bindTooltip(`
         <strong>${road.name}</strong><br>
         Type: ${road.roadType}<br>
         Length: ${road.length.toFixed(2)} km
       `, { sticky: true });
 
-      // Add click handler to select road
-      roadLayer.on('click', () => {
-        onRoadSelect(road);
+      // Select the full geometry, not the simplified one drawn at this zoom
+      line.on('click', async () => {
+        const clicked = roadLayersRef.current[road.id]?.road ?? road;
+        try {
+          onRoadSelectRef.current(clicked.simplified ? await fetchRoad(areaRef.current.id, clicked.id) : clicked);
+        } catch (error) {
+          console.error('Error fetching clicked road:', error);
+        }
       });
 
-      // Add hover effects
-      roadLayer.on('mouseover', () => {
-        if (!selectedRoads[road.id]) {
-          roadLayer.setStyle({
-            weight: road.roadType === 'Primary' ? 6 : road.roadType === 'Secondary' ? 5 : 4,
-            opacity: 0.9,
-          });
-        }
+      line.on('mouseover', () => {
+        hoverTargets(road).forEach((target) => {
+          if (!selectedRoadsRef.current[target.road.id]) {
+            target.line.setStyle({ weight: hoverWeight(target.road.roadType), opacity: 0.9 });
+          }
+        });
       });
 
-      roadLayer.on('mouseout', () => {
-        if (!selectedRoads[road.id]) {
-          roadLayer.setStyle({
-            weight: road.roadType === 'Primary' ? 4 : road.roadType === 'Secondary' ? 3 : 2,
-            opacity: 0.7,
-          });
-        }
+      line.on('mouseout', () => {
+        hoverTargets(road).forEach((target) => {
+          target.line.setStyle(target.style);
+        });
       });
 
-      // Store reference to layer
-      roadLayersRef.current[road.id] = roadLayer;
+      layers[road.id] = { road, line, style };
     });
-  }, [roads, selectedRoads, onRoadSelect, showAllRoads]);
+  }, [roads, showAllRoads, zoom]);
 
-  // Update road styles when selection changes
+  // Restyle the roads whose look changed with the selection or colour settings
   useEffect(() => {
-    Object.entries(roadLayersRef.current).forEach(([roadId, layer]) => {
-      const isSelected = !!selectedRoads[roadId];
-      const road = roads.find(r => r.id === roadId);
-      
-      if (road) {
-        const defaultColor = ROAD_TYPE_COLORS[road.roadType] || '#3388ff';
-        
-        layer.setStyle({
-          color: isSelected ? '#F97316' : defaultColor,
-          weight: isSelected ? 6 : road.roadType === 'Primary' ? 4 : road.roadType === 'Secondary' ? 3 : 2,
-          opacity: isSelected ? 0.8 : 0.7,
-        });
+    Object.values(roadLayersRef.current).forEach((layer) => {
+      const style = styleOfRoad(layer.road);
+      if (!sameStyle(style, layer.style)) {
+        layer.style = style;
+        layer.line.setStyle(style);
       }
     });
-  }, [selectedRoads, roads]);
+  }, [selectedRoads, colorMode, coverage, selectionColor, highlightColors]);
 
   return (
     <div 
@@ -232,6 +616,6 @@ const MapContainer: React.FC<MapContainerProps> = ({
       data-testid="map-container"
     />
   );
-};
+});
 
 export default MapContainer;
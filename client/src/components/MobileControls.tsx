@@ -1,12 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { Menu, RotateCcw, MapPin, ZoomIn, ChevronUp, HelpCircle } from 'lucide-react';
+import { Area } from '@shared/schema';
 
 interface MobileControlsProps {
+  area?: Area;
   onToggleControlPanel: () => void;
   onReset: () => void;
 }
 
 const MobileControls: React.FC<MobileControlsProps> = ({
+  area,
   onToggleControlPanel,
   onReset,
 }) => {
@@ -61,7 +64,8 @@ const MobileControls: React.FC<MobileControlsProps> = ({
     <div className="flex justify-between items-center border-t border-gray-200">
       <button
         className="flex-1 py-3 px-2 text-gray-700 hover:bg-gray-100 flex flex-col items-center justify-center transition-colors"
-        onClick={() => window.open('https://www.openstreetmap.org/relation/34837', '_blank')}
+        disabled={!area}
+        onClick={() => area && window.open(`https://www.openstreetmap.org/relation/${area.relationId}`, '_blank')}
       >
         <MapPin className="h-5 w-5 mb-1" />
         <span className="text-xs">OpenStreetMap</span>
@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useId } from 'react';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RoadSearchResult } from '@shared/schema';
+import { useRoadSearch } from '@/hooks/useMapData';
+import { Search } from 'lucide-react';
+
+interface RoadSearchProps {
+  areaId: string | undefined;
+  onPick: (result: RoadSearchResult, select: boolean) => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY = 250;
+
+// Search box for roads by name; arrow keys move through the suggestions,
+// Enter picks one and Escape closes them
+const RoadSearch: React.FC<RoadSearchProps> = ({ areaId, onPick }) => {
+  const [text, setText] = useState('');
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const [selectOnPick, setSelectOnPick] = useState(false);
+  const { data: results = [], error, isFetching } = useRoadSearch(areaId, query);
+  const listId = useId();
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(text), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  // Start from the top of each new set of suggestions
+  useEffect(() => {
+    setActive(0);
+  }, [results]);
+
+  const pick = (result: RoadSearchResult) => {
+    onPick(result, selectOnPick);
+    setText(result.name);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (!open) {
+        setOpen(true);
+      } else if (results.length > 0) {
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setActive(index => (index + step + results.length) % results.length);
+      }
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      if (open && results[active]) pick(results[active]);
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && query.trim().length >= 2;
+
+  return (
+    <div className="mb-3">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <Input
+          className="pl-8 text-sm"
+          placeholder="Find a road"
+          role="combobox"
+          aria-label="Find a road"
+          aria-expanded={showList}
+          aria-controls={listId}
+          aria-activedescendant={showList && results[active] ? `${listId}-${active}` : undefined}
+          disabled={!areaId}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+        />
+
+        {showList && (
+          <ul
+            id={listId}
+            role="listbox"
+            className="absolute z-30 mt-1 w-full max-h-64 overflow-y-auto rounded-md border border-gray-200 bg-white shadow-lg text-sm"
+          >
+            {results.map((result, i) => (
+              <li
+                key={result.streetId}
+                id={`${listId}-${i}`}
+                role="option"
+                aria-selected={i === active}
+                className={`px-3 py-2 cursor-pointer ${i === active ? 'bg-gray-100' : ''}`}
+                onMouseEnter={() => setActive(i)}
+                // Keep focus in the box so the list stays open for the click
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pick(result)}
+              >
+                <div className="font-medium text-gray-800 truncate">{result.name}</div>
+                <div className="text-xs text-gray-500">
+                  {result.roadType}, {result.length.toFixed(2)} km
+                </div>
+              </li>
+            ))}
+            {results.length === 0 && (
+              <li className="px-3 py-2 text-gray-500">
+                {error
+                  ? (error as Error).message.startsWith('503') ? 'Roads are still loading, try again shortly' : 'Search failed'
+                  : isFetching ? 'Searching…' : 'No roads found'}
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2 mt-2">
+        <Checkbox
+          id="select-on-pick"
+          checked={selectOnPick}
+          onCheckedChange={(checked) => setSelectOnPick(checked === true)}
+        />
+        <Label htmlFor="select-on-pick" className="text-xs text-gray-600 font-normal">
+          Select the road when picked
+        </Label>
+      </div>
+    </div>
+  );
+};
+
+export default RoadSearch;
@@ -15,11 +15,12 @@ import {
 } from 'lucide-react';
 
 interface TutorialProps {
+  areaName?: string;
   visible: boolean;
   onClose: () => void;
 }
 
-const Tutorial: React.FC<TutorialProps> = ({ visible, onClose }) => {
+const Tutorial: React.FC<TutorialProps> = ({ areaName, visible, onClose }) => {
   const [activeTab, setActiveTab] = useState<string>('basics');
   
   // Add ESC key handler to close tutorial
@@ -47,7 +48,7 @@ const Tutorial: React.FC<TutorialProps> = ({ visible, onClose }) => {
             <div className="bg-primary text-white p-2 rounded-lg mr-3">
               <Map className="h-6 w-6" />
             </div>
-            <h2 className="text-2xl font-bold text-gray-800">Welcome to Wandsworth Road Highlighter</h2>
+            <h2 className="text-2xl font-bold text-gray-800">Welcome to {areaName ? `${areaName} ` : ''}Road Highlighter</h2>
           </div>
           <div className="flex items-center space-x-2">
             <button 
@@ -220,7 +221,7 @@ const Tutorial: React.FC<TutorialProps> = ({ visible, onClose }) => {
               <div className="space-y-3">
                 <div className="p-3 bg-gray-50 rounded-lg">
                   <h3 className="font-semibold text-gray-800 mb-2">Real OpenStreetMap Data</h3>
-                  <p className="text-gray-600 text-sm">This application uses actual OpenStreetMap road data for accurate representation of Wandsworth's road network.</p>
+                  <p className="text-gray-600 text-sm">This application uses actual OpenStreetMap road data for accurate representation of {areaName ? `${areaName}'s` : 'the'} road network.</p>
                 </div>
                 
                 <div className="p-3 bg-gray-50 rounded-lg">
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog';
+import { MemberWorkspace, WorkspaceRole, workspaceRoles } from '@shared/schema';
+import {
+  useWorkspaceMembers, useInviteMember, useUpdateMember, useRemoveMember, useCreateWorkspace,
+} from '@/hooks/useMapData';
+import { useUser } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { UserPlus, X } from 'lucide-react';
+
+interface WorkspaceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspace: MemberWorkspace;
+  onWorkspaceChange: (workspaceId: number) => void;
+}
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+const RoleSelect: React.FC<{
+  id?: string;
+  value: WorkspaceRole;
+  disabled?: boolean;
+  onChange: (role: WorkspaceRole) => void;
+}> = ({ id, value, disabled, onChange }) => (
+  <Select value={value} disabled={disabled} onValueChange={(role) => onChange(role as WorkspaceRole)}>
+    <SelectTrigger id={id} className="h-8 w-28 text-sm" aria-label="Role">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {workspaceRoles.map((role) => (
+        <SelectItem key={role} value={role}>
+          {ROLE_LABELS[role]}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+// Members of the active workspace; owners invite people and change their roles
+const WorkspaceDialog: React.FC<WorkspaceDialogProps> = ({
+  open,
+  onOpenChange,
+  workspace,
+  onWorkspaceChange,
+}) => {
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('editor');
+  const [newName, setNewName] = useState('');
+  const { data: user } = useUser();
+  const { data: members = [] } = useWorkspaceMembers(open ? workspace.id : undefined);
+  const inviteMember = useInviteMember(workspace.id);
+  const updateMember = useUpdateMember(workspace.id);
+  const removeMember = useRemoveMember(workspace.id);
+  const createWorkspace = useCreateWorkspace();
+  const isOwner = workspace.role === 'owner';
+
+  const failed = (title: string) => (error: Error) => {
+    toast({ variant: 'destructive', title, description: error.message });
+  };
+
+  const handleInvite = (event: React.FormEvent) => {
+    event.preventDefault();
+    inviteMember.mutate({ username: username.trim(), role }, {
+      onSuccess: () => setUsername(''),
+      onError: failed('Inviting member failed'),
+    });
+  };
+
+  const handleRemove = (userId: number) => {
+    const leaving = userId === user?.id;
+    if (leaving && !window.confirm(`Leave ${workspace.name}?`)) return;
+
+    removeMember.mutate(userId, {
+      onSuccess: () => {
+        if (leaving) onOpenChange(false);
+      },
+      onError: failed(leaving ? 'Leaving workspace failed' : 'Removing member failed'),
+    });
+  };
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    createWorkspace.mutate({ name: newName.trim() }, {
+      onSuccess: (created) => {
+        setNewName('');
+        onWorkspaceChange(created.id);
+      },
+      onError: failed('Creating workspace failed'),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{workspace.name}</DialogTitle>
+          <DialogDescription>
+            Everyone here sees the workspace's collections and highlights. Editors can change
+            them, viewers can only look, and owners also manage the members.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-2 max-h-60 overflow-y-auto">
+          {members.map((member) => (
+            <li key={member.userId} className="flex items-center space-x-2">
+              <span className="flex-1 text-sm truncate">
+                {member.username}
+                {member.userId === user?.id && <span className="text-gray-500"> (you)</span>}
+              </span>
+              <RoleSelect
+                value={member.role}
+                disabled={!isOwner || updateMember.isPending}
+                onChange={(newRole) => updateMember.mutate(
+                  { userId: member.userId, role: newRole },
+                  { onError: failed('Changing role failed') },
+                )}
+              />
+              {(isOwner || member.userId === user?.id) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="p-1 h-auto"
+                  title={member.userId === user?.id ? 'Leave workspace' : `Remove ${member.username}`}
+                  disabled={removeMember.isPending}
+                  onClick={() => handleRemove(member.userId)}
+                >
+                  <X className="h-4 w-4 text-gray-500" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {isOwner && (
+          <form className="space-y-1 pt-2 border-t border-gray-200" onSubmit={handleInvite}>
+            <Label htmlFor="invite-username">Invite by username</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="invite-username"
+                className="h-8 text-sm"
+                value={username}
+                required
+                onChange={(e) => setUsername(e.target.value)}
+              />
+              <RoleSelect value={role} onChange={setRole} />
+              <Button
+                type="submit"
+                size="sm"
+                className="h-8"
+                title="Invite"
+                disabled={!username.trim() || inviteMember.isPending}
+              >
+                <UserPlus className="h-4 w-4" />
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <form className="space-y-1 pt-2 border-t border-gray-200" onSubmit={handleCreate}>
+          <Label htmlFor="workspace-name">New workspace</Label>
+          <div className="flex space-x-2">
+            <Input
+              id="workspace-name"
+              className="h-8 text-sm"
+              value={newName}
+              maxLength={100}
+              required
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              size="sm"
+              className="h-8"
+              disabled={!newName.trim() || createWorkspace.isPending}
+            >
+              Create
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkspaceDialog;
@@ -0,0 +1,51 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getQueryFn, USER_QUERY_KEY } from "@/lib/queryClient";
+import { PublicUser, InsertUser } from "@shared/schema";
+
+// The logged-in user, or null when logged out (the server answers 401)
+export function useUser() {
+  return useQuery({
+    queryKey: USER_QUERY_KEY,
+    queryFn: getQueryFn<{ user: PublicUser } | null>({ on401: "returnNull" }),
+    select: (data) => data?.user ?? null,
+  });
+}
+
+// Logging in or registering swaps the account, so drop anything cached for the previous one
+function onAccountChange(user: PublicUser) {
+  queryClient.removeQueries({ predicate: query => query.queryKey[0] !== USER_QUERY_KEY[0] });
+  queryClient.setQueryData(USER_QUERY_KEY, { user });
+}
+
+export function useLogin() {
+  return useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const response = await apiRequest('POST', '/api/login', credentials);
+      const data = await response.json();
+      return data.user as PublicUser;
+    },
+    onSuccess: onAccountChange,
+  });
+}
+
+export function useRegister() {
+  return useMutation({
+    mutationFn: async (details: InsertUser) => {
+      const response = await apiRequest('POST', '/api/register', details);
+      const data = await response.json();
+      return data.user as PublicUser;
+    },
+    onSuccess: onAccountChange,
+  });
+}
+
+export function useLogout() {
+  return useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/logout');
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(USER_QUERY_KEY, null);
+    },
+  });
+}
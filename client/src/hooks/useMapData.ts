@@ -1,39 +1,54 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Road } from "@shared/schema";
-import { useEffect } from "react";
+import {
+  Road, Street, Boundary, Area, RoadHighlight, TrackMatch,
+  RoadCoverage, InsertRoadCoverage, CoverageProgress,
+  Collection, InsertCollection, CollectionHighlight, UpdateRoadHighlight,
+  MemberWorkspace, InsertWorkspace, WorkspaceMember, WorkspaceRole,
+  Presence, LiveServerMessage, LiveClientMessage, Share, InsertShare, RoadSearchResult,
+} from "@shared/schema";
+import { DETAIL_LEVELS, VECTOR_TILE_MAX_ZOOM, detailLevelFor, roadAtDetailLevel } from "@shared/roadDetail";
+import { COMPACT_ROADS_TYPE, expandRoad, type CompactRoad } from "@shared/polyline";
+import { useEffect, useState, useRef, useCallback } from "react";
 
-// Define the Wandsworth bounds
-const WANDSWORTH_BOUNDS = {
-  swLat: 51.4137, // Southwest latitude
-  swLng: -0.3020, // Southwest longitude
-  neLat: 51.5005, // Northeast latitude
-  neLng: -0.0834, // Northeast longitude
-};
+// Cache key holding every road in an area once the background preload finishes
+const preloadedRoadsKey = (areaId: string) => ['/api/roads', areaId, 'preloaded'];
 
+// Fetch from /api/roads in the compact encoded polyline format, decoding the
+// roads back to plain ones. The browser handles compression and revalidates
+// with the ETag, so unchanged roads come back as an empty 304.
+async function fetchRoadList(url: string, options?: { timeout?: number }) {
+  const response = await apiRequest('GET', url, undefined, { ...options, accept: COMPACT_ROADS_TYPE });
+  const data = await response.json();
+  return Array.isArray(data.roads) ? { roads: (data.roads as CompactRoad[]).map(expandRoad) } : data;
+}
+
+// Roads in view at the zoom's level of detail. Nothing is fetched at zooms
+// the map draws from vector tiles.
 export function useRoadsByBounds(bounds: {
   swLat: number;
   swLng: number;
   neLat: number;
   neLng: number;
-} | null) {
+} | null, areaId: string | undefined, zoom?: number) {
   const queryClient = useQueryClient();
+  const level = detailLevelFor(zoom);
   
   return useQuery({
-    queryKey: ['/api/roads', bounds ? JSON.stringify(bounds) : null],
+    queryKey: ['/api/roads', areaId, bounds ? JSON.stringify(bounds) : null, level],
     queryFn: async () => {
-      if (!bounds) return { roads: [] };
+      if (!bounds || !areaId) return { roads: [] };
       
       const { swLat, swLng, neLat, neLng } = bounds;
       
-      // Before making a network request, check if we already have data for the full Wandsworth area
-      const fullCacheKey = ['/api/roads', JSON.stringify(WANDSWORTH_BOUNDS)];
-      const cachedFullData = queryClient.getQueryData(fullCacheKey) as { roads: Road[] } | undefined;
+      // Before making a network request, check if we already have data for the full area
+      const cachedFullData = queryClient.getQueryData(preloadedRoadsKey(areaId)) as { roads: Road[] } | undefined;
       
       if (cachedFullData?.roads?.length) {
-        console.log('Using cached Wandsworth data to filter local view...');
+        console.log(`Using cached ${areaId} data to filter local view...`);
         
-        // Filter the cached data to only show roads in the current viewport
+        // Filter the cached data to only show roads in the current viewport,
+        // thinned out and simplified the way the server would at this zoom
         const filteredRoads = cachedFullData.roads.filter(road => {
           return road.coordinates.some(coord => {
             const [lat, lng] = coord;
@@ -41,15 +56,15 @@ export function useRoadsByBounds(bounds: {
           });
         });
         
-        return { roads: filteredRoads };
+        return { roads: filteredRoads.flatMap(road => roadAtDetailLevel(road, DETAIL_LEVELS[level]) ?? []) };
       }
       
       // If no cached data is available, fetch from the API
-      const url = `/api/roads?swLat=${swLat}&swLng=${swLng}&neLat=${neLat}&neLng=${neLng}`;
+      const url = `/api/roads?area=${areaId}&swLat=${swLat}&swLng=${swLng}&neLat=${neLat}&neLng=${neLng}` +
+        (zoom === undefined ? '' : `&zoom=${Math.floor(zoom)}`);
       
       try {
-        const response = await apiRequest('GET', url);
-        const data = await response.json();
+        const data = await fetchRoadList(url);
         
         if (!data.roads || !Array.isArray(data.roads)) {
           console.error('Invalid response format from API:', data);
@@ -62,17 +77,126 @@ export function useRoadsByBounds(bounds: {
         throw error;
       }
     },
-    enabled: !!bounds,
+    enabled: !!bounds && !!areaId && (zoom === undefined || zoom > VECTOR_TILE_MAX_ZOOM),
     retry: 3, // Retry failed requests up to 3 times
     staleTime: 60000, // Consider data fresh for 1 minute
     gcTime: 3600000, // Keep data in cache for 1 hour
   });
 }
 
-export function useHighlightRoad() {
+// Fetch a single road, e.g. one clicked on a vector tile
+export function fetchRoad(areaId: string, roadId: string) {
+  return queryClient.fetchQuery({
+    queryKey: ['/api/roads', areaId, 'road', roadId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/roads/${roadId}?area=${areaId}`);
+      const data = await response.json();
+      return data.road as Road;
+    },
+    staleTime: 3600000, // Roads only change when the master cache is refreshed
+  });
+}
+
+// Streets whose names match what has been typed, once it's at least two characters
+export function useRoadSearch(areaId: string | undefined, query: string) {
+  const q = query.trim();
+
+  return useQuery({
+    queryKey: ['/api/roads/search', areaId, q],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/roads/search?area=${areaId}&q=${encodeURIComponent(q)}`);
+      const data = await response.json();
+      return data.results as RoadSearchResult[];
+    },
+    enabled: !!areaId && q.length >= 2,
+    placeholderData: keepPreviousData, // Keep showing suggestions while the next ones load
+    staleTime: 3600000, // Names only change when the master cache is refreshed
+  });
+}
+
+// Fetch several roads of an area by ID; ones that no longer exist are left out
+export async function fetchRoadsById(areaId: string, roadIds: string[]): Promise<Road[]> {
+  if (roadIds.length === 0) return [];
+  const response = await apiRequest('POST', `/api/roads/lookup?area=${areaId}`, { ids: roadIds });
+  const data = await response.json();
+  return data.roads as Road[];
+}
+
+// Fetch the view and selection behind a short link
+export function fetchShare(code: string) {
+  return queryClient.fetchQuery({
+    queryKey: ['/api/shares', code],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/shares/${encodeURIComponent(code)}`);
+      const data = await response.json();
+      return data.share as Share;
+    },
+  });
+}
+
+export function useCreateShare() {
+  return useMutation({
+    mutationFn: async (share: InsertShare) => {
+      const response = await apiRequest('POST', '/api/shares', share);
+      const data = await response.json();
+      return data.share as Share;
+    },
+  });
+}
+
+// Fetch a street with its member ways, reusing the cached copy when there is one
+export function fetchStreet(areaId: string, streetId: string) {
+  return queryClient.fetchQuery({
+    queryKey: ['/api/streets', areaId, streetId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/streets/${streetId}?area=${areaId}`);
+      return response.json() as Promise<{ street: Street; roads: Road[] }>;
+    },
+    staleTime: 3600000, // Streets only change when the master cache is refreshed
+  });
+}
+
+// Query for the highlights of one of a workspace's collections, or all of them
+const highlightsQuery = (workspaceId: number | undefined, collectionId?: number) => ({
+  queryKey: ['/api/highlights', workspaceId, collectionId ?? 'all'],
+  queryFn: async () => {
+    const url = collectionId === undefined
+      ? `/api/highlights?workspace=${workspaceId}`
+      : `/api/highlights?workspace=${workspaceId}&collection=${collectionId}`;
+    const response = await apiRequest('GET', url);
+    const data = await response.json();
+    return data.highlights as RoadHighlight[];
+  },
+});
+
+export function useRoadHighlights(workspaceId: number | undefined, collectionId?: number) {
+  return useQuery({ ...highlightsQuery(workspaceId, collectionId), enabled: workspaceId !== undefined });
+}
+
+// Fetch a collection's highlights outside of a component (when switching to it)
+export function fetchCollectionHighlights(workspaceId: number, collectionId: number) {
+  return queryClient.fetchQuery(highlightsQuery(workspaceId, collectionId));
+}
+
+// Annotate a highlight; fails with a 409 error if it changed since `version`
+export function useUpdateHighlight(workspaceId: number | undefined) {
+  return useMutation({
+    mutationFn: async ({ id, ...update }: UpdateRoadHighlight & { id: number }) => {
+      const response = await apiRequest('PATCH', `/api/highlights/${id}?workspace=${workspaceId}`, update);
+      const data = await response.json();
+      return data.highlight as RoadHighlight;
+    },
+    onSettled: () => {
+      // Also refetch after a conflict, so the form shows the latest version
+      queryClient.invalidateQueries({ queryKey: ['/api/highlights'] });
+    },
+  });
+}
+
+export function useDeleteRoadHighlight(workspaceId: number | undefined) {
   return useMutation({
-    mutationFn: async (road: Omit<Road, "id">) => {
-      const response = await apiRequest('POST', '/api/highlights', road);
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/highlights/${id}?workspace=${workspaceId}`);
       return response.json();
     },
     onSuccess: () => {
@@ -81,21 +205,69 @@ export function useHighlightRoad() {
   });
 }
 
-export function useRoadHighlights() {
+// Create highlights from a parsed GeoJSON file, in the given collection if
+// any; the server validates it
+export function useImportHighlights(workspaceId: number | undefined, collectionId?: number) {
+  return useMutation({
+    mutationFn: async (geojson: unknown) => {
+      const url = collectionId === undefined
+        ? `/api/highlights/import?workspace=${workspaceId}`
+        : `/api/highlights/import?workspace=${workspaceId}&collection=${collectionId}`;
+      const response = await apiRequest('POST', url, geojson);
+      const data = await response.json();
+      return data.highlights as RoadHighlight[];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/highlights'] });
+    },
+  });
+}
+
+export function useCollections(workspaceId: number | undefined) {
   return useQuery({
-    queryKey: ['/api/highlights'],
+    queryKey: ['/api/collections', workspaceId],
     queryFn: async () => {
-      const response = await apiRequest('GET', '/api/highlights');
-      return response.json();
+      const response = await apiRequest('GET', `/api/collections?workspace=${workspaceId}`);
+      const data = await response.json();
+      return data.collections as Collection[];
+    },
+    enabled: workspaceId !== undefined,
+  });
+}
+
+export function useCreateCollection(workspaceId: number | undefined) {
+  return useMutation({
+    mutationFn: async (collection: InsertCollection) => {
+      const response = await apiRequest('POST', `/api/collections?workspace=${workspaceId}`, collection);
+      const data = await response.json();
+      return data.collection as Collection;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/collections'] });
     },
   });
 }
 
-export function useDeleteRoadHighlight() {
+export function useDeleteCollection(workspaceId: number | undefined) {
   return useMutation({
     mutationFn: async (id: number) => {
-      const response = await apiRequest('DELETE', `/api/highlights/${id}`);
-      return response.json();
+      await apiRequest('DELETE', `/api/collections/${id}?workspace=${workspaceId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/collections'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/highlights'] });
+    },
+  });
+}
+
+// Make a collection's highlights match the given set
+export function useSaveCollectionHighlights(workspaceId: number | undefined) {
+  return useMutation({
+    mutationFn: async ({ collectionId, highlights }: { collectionId: number; highlights: CollectionHighlight[] }) => {
+      const url = `/api/collections/${collectionId}/highlights?workspace=${workspaceId}`;
+      const response = await apiRequest('PUT', url, { highlights });
+      const data = await response.json();
+      return data.highlights as RoadHighlight[];
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/highlights'] });
@@ -103,37 +275,328 @@ export function useDeleteRoadHighlight() {
   });
 }
 
+// Workspaces the user belongs to, with their role in each
+export function useWorkspaces() {
+  return useQuery({
+    queryKey: ['/api/workspaces'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/workspaces');
+      const data = await response.json();
+      return data.workspaces as MemberWorkspace[];
+    },
+  });
+}
+
+export function useCreateWorkspace() {
+  return useMutation({
+    mutationFn: async (workspace: InsertWorkspace) => {
+      const response = await apiRequest('POST', '/api/workspaces', workspace);
+      const data = await response.json();
+      return data.workspace as MemberWorkspace;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces'] });
+    },
+  });
+}
+
+export function useWorkspaceMembers(workspaceId: number | undefined) {
+  return useQuery({
+    queryKey: ['/api/workspaces', workspaceId, 'members'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/workspaces/${workspaceId}/members`);
+      const data = await response.json();
+      return data.members as WorkspaceMember[];
+    },
+    enabled: workspaceId !== undefined,
+  });
+}
+
+// Invite, re-role and remove members; each answers with the updated member list
+export function useInviteMember(workspaceId: number | undefined) {
+  return useMutation({
+    mutationFn: async (invite: { username: string; role: WorkspaceRole }) => {
+      const response = await apiRequest('POST', `/api/workspaces/${workspaceId}/members`, invite);
+      const data = await response.json();
+      return data.members as WorkspaceMember[];
+    },
+    onSuccess: (members) => {
+      queryClient.setQueryData(['/api/workspaces', workspaceId, 'members'], members);
+    },
+  });
+}
+
+export function useUpdateMember(workspaceId: number | undefined) {
+  return useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: WorkspaceRole }) => {
+      const response = await apiRequest('PATCH', `/api/workspaces/${workspaceId}/members/${userId}`, { role });
+      const data = await response.json();
+      return data.members as WorkspaceMember[];
+    },
+    onSuccess: (members) => {
+      queryClient.setQueryData(['/api/workspaces', workspaceId, 'members'], members);
+      // The user may have changed their own role
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces'], exact: true });
+    },
+  });
+}
+
+export function useRemoveMember(workspaceId: number | undefined) {
+  return useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest('DELETE', `/api/workspaces/${workspaceId}/members/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces'] });
+    },
+  });
+}
+
+// Wait before reconnecting the live updates socket after it drops
+const LIVE_RECONNECT_DELAY = 3000;
+// Presence changes (mostly pointer moves) are sent at most this often
+const PRESENCE_INTERVAL = 200;
+
+// Put highlights a teammate saved into every cached list they belong in,
+// unless the cache already has a newer version
+function upsertCachedHighlights(workspaceId: number, saved: RoadHighlight[]) {
+  queryClient.getQueriesData<RoadHighlight[]>({ queryKey: ['/api/highlights', workspaceId] }).forEach(([queryKey, cached]) => {
+    if (!cached) return;
+    const collection = queryKey[2];
+    const belonging = saved.filter(highlight => collection === 'all' || highlight.collectionId === collection);
+    if (belonging.length === 0) return;
+
+    const byId = new Map(belonging.map(highlight => [highlight.id, highlight]));
+    const updated = cached.map((highlight) => {
+      const incoming = byId.get(highlight.id);
+      byId.delete(highlight.id);
+      return incoming && incoming.version >= highlight.version ? incoming : highlight;
+    });
+    queryClient.setQueryData(queryKey, [...updated, ...Array.from(byId.values())]);
+  });
+}
+
+function removeCachedHighlight(workspaceId: number, id: number) {
+  queryClient.setQueriesData<RoadHighlight[]>({ queryKey: ['/api/highlights', workspaceId] }, (cached) =>
+    cached?.filter(highlight => highlight.id !== id)
+  );
+}
+
+/**
+ * Keep the workspace's highlights live over a WebSocket: changes teammates
+ * make are patched into the cache as they happen. Also shares this user's
+ * selection and pointer with others looking at the same collection, and
+ * returns theirs by user ID.
+ */
+export function useLiveUpdates(workspaceId: number | undefined, collectionId: number | null) {
+  const [peers, setPeers] = useState<Record<number, Presence>>({});
+  const socketRef = useRef<WebSocket | null>(null);
+  const subscriptionRef = useRef({ workspaceId, collectionId });
+  subscriptionRef.current = { workspaceId, collectionId };
+  const presenceRef = useRef<{ selection: string[]; cursor: [number, number] | null }>({ selection: [], cursor: null });
+  const presenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const send = (message: LiveClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message));
+    }
+  };
+
+  const subscribe = () => {
+    const { workspaceId, collectionId } = subscriptionRef.current;
+    if (workspaceId === undefined) return;
+    send({ type: 'subscribe', workspaceId, collectionId });
+    send({ type: 'presence', ...presenceRef.current });
+  };
+
+  // Connect once, reconnecting whenever the connection drops
+  useEffect(() => {
+    let closed = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleMessage = (message: LiveServerMessage) => {
+      const { workspaceId } = subscriptionRef.current;
+      if (workspaceId === undefined) return;
+
+      switch (message.type) {
+        case 'highlights-saved':
+          upsertCachedHighlights(workspaceId, message.highlights);
+          break;
+        case 'highlight-deleted':
+          removeCachedHighlight(workspaceId, message.id);
+          break;
+        case 'collections-changed':
+          queryClient.invalidateQueries({ queryKey: ['/api/collections', workspaceId] });
+          queryClient.invalidateQueries({ queryKey: ['/api/highlights', workspaceId] });
+          break;
+        case 'presence':
+          setPeers(prev => ({ ...prev, [message.presence.userId]: message.presence }));
+          break;
+        case 'presence-left':
+          setPeers(({ [message.userId]: _left, ...rest }) => rest);
+          break;
+      }
+    };
+
+    const connect = (reconnecting: boolean) => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        subscribe();
+        // Changes made while disconnected were missed
+        if (reconnecting) queryClient.invalidateQueries({ queryKey: ['/api/highlights'] });
+      };
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Invalid live update:', error);
+        }
+      };
+      socket.onclose = () => {
+        socketRef.current = null;
+        setPeers({});
+        if (!closed) reconnectTimer = setTimeout(() => connect(true), LIVE_RECONNECT_DELAY);
+      };
+    };
+
+    connect(false);
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      if (presenceTimerRef.current) clearTimeout(presenceTimerRef.current);
+      socketRef.current?.close();
+    };
+  }, []);
+
+  // Move to the new workspace or collection; its peers will introduce themselves
+  useEffect(() => {
+    setPeers({});
+    subscribe();
+  }, [workspaceId, collectionId]);
+
+  // Share this user's selection and/or pointer, batching rapid changes
+  const updatePresence = useCallback((presence: { selection?: string[]; cursor?: [number, number] | null }) => {
+    presenceRef.current = { ...presenceRef.current, ...presence };
+    if (presenceTimerRef.current) return;
+
+    presenceTimerRef.current = setTimeout(() => {
+      presenceTimerRef.current = null;
+      send({ type: 'presence', ...presenceRef.current });
+    }, PRESENCE_INTERVAL);
+  }, []);
+
+  return { peers, updatePresence };
+}
+
+// Match a recorded GPS track file (GPX or GeoJSON) to the area's roads
+export function useMatchTrack(areaId: string | undefined) {
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const text = await file.text();
+      const url = `/api/tracks/match?area=${areaId}`;
+      const response = file.name.toLowerCase().endsWith('.gpx')
+        ? await apiRequest('POST', url, text, { contentType: 'application/gpx+xml' })
+        : await apiRequest('POST', url, JSON.parse(text));
+      return response.json() as Promise<{ matches: TrackMatch[]; roads: Road[] }>;
+    },
+  });
+}
+
+export function useAreas() {
+  return useQuery({
+    queryKey: ['/api/areas'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/areas');
+      return response.json() as Promise<{ areas: Area[]; defaultAreaId: string }>;
+    },
+  });
+}
+
+export function useBoundary(areaId: string | undefined) {
+  return useQuery({
+    queryKey: ['/api/boundary', areaId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/boundary?area=${areaId}`);
+      const data = await response.json();
+      return data.boundary as Boundary;
+    },
+    enabled: !!areaId,
+  });
+}
+
+// A workspace's coverage records in an area; progress is null until the area's roads load
+export function useCoverage(workspaceId: number | undefined, areaId: string | undefined) {
+  return useQuery({
+    queryKey: ['/api/coverage', workspaceId, areaId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/coverage?workspace=${workspaceId}&area=${areaId}`);
+      return response.json() as Promise<{ coverage: RoadCoverage[]; progress: CoverageProgress | null }>;
+    },
+    enabled: workspaceId !== undefined && !!areaId,
+    refetchInterval: (query) => query.state.data && !query.state.data.progress ? 5000 : false,
+  });
+}
+
+export function useSaveCoverage(workspaceId: number | undefined, areaId: string | undefined) {
+  return useMutation({
+    mutationFn: async (records: InsertRoadCoverage[]) => {
+      const response = await apiRequest('POST', `/api/coverage?workspace=${workspaceId}&area=${areaId}`, { records });
+      const data = await response.json();
+      return data.coverage as RoadCoverage[];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/coverage', workspaceId, areaId] });
+    },
+  });
+}
+
+export function useDeleteCoverage(workspaceId: number | undefined, areaId: string | undefined) {
+  return useMutation({
+    mutationFn: async (roadId: string) => {
+      await apiRequest('DELETE', `/api/coverage/${encodeURIComponent(roadId)}?workspace=${workspaceId}&area=${areaId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/coverage', workspaceId, areaId] });
+    },
+  });
+}
+
 /**
- * Hook to preload all roads in the Wandsworth area in the background
- * This function will automatically fetch all roads for the entire Wandsworth borough
+ * Hook to preload all roads in the selected area in the background
+ * This function will automatically fetch all roads within the area's boundary
  * and store them in the cache for faster access when navigating the map
  */
-export function usePreloadWandsworthRoads() {
+export function usePreloadAreaRoads(area: Area | undefined) {
   const client = useQueryClient();
+  const { data: boundary } = useBoundary(area?.id);
   
   useEffect(() => {
+    // The preload covers the boundary's bounding box, so wait for it
+    if (!area || !boundary) return;
+    const { bounds } = boundary;
+
     const prefetchRoads = async () => {
-      console.log('Background loading all roads in Wandsworth area...');
+      console.log(`Background loading all roads in ${area.name} area...`);
       
       try {
-        // Prefetch the data for the entire Wandsworth area
-        const url = `/api/roads?swLat=${WANDSWORTH_BOUNDS.swLat}&swLng=${WANDSWORTH_BOUNDS.swLng}&neLat=${WANDSWORTH_BOUNDS.neLat}&neLng=${WANDSWORTH_BOUNDS.neLng}`;
+        // Prefetch the data for the entire area
+        const url = `/api/roads?area=${area.id}&swLat=${bounds.swLat}&swLng=${bounds.swLng}&neLat=${bounds.neLat}&neLng=${bounds.neLng}`;
         
         // Set a longer timeout for this large request
-        const response = await apiRequest('GET', url, undefined, { timeout: 60000 });
-        const data = await response.json();
+        const data = await fetchRoadList(url, { timeout: 60000 });
         
         if (data.roads && Array.isArray(data.roads)) {
           // Store the complete data in the cache
-          client.setQueryData(
-            ['/api/roads', JSON.stringify(WANDSWORTH_BOUNDS)], 
-            data
-          );
+          client.setQueryData(preloadedRoadsKey(area.id), data);
           
-          console.log(`Successfully preloaded ${data.roads.length} roads for Wandsworth area`);
+          console.log(`Successfully preloaded ${data.roads.length} roads for ${area.name} area`);
         }
       } catch (error) {
-        console.error('Error preloading Wandsworth roads:', error);
+        console.error(`Error preloading ${area.name} roads:`, error);
         // Do not re-throw error as this is a background operation
       }
     };
@@ -144,5 +607,5 @@ export function usePreloadWandsworthRoads() {
     }, 5000);
     
     return () => clearTimeout(timer);
-  }, [client]);
+  }, [client, area, boundary]);
 }
@@ -0,0 +1,16 @@
+import { Road, RoadHighlight } from '@shared/schema';
+
+// Road for a saved highlight, keyed by OSM way as in the road catalog so it
+// matches the road on the map
+export function roadFromHighlight(highlight: RoadHighlight): Road {
+  const [kind, wayId] = highlight.osmId.split('/');
+
+  return {
+    id: kind === 'way' && wayId ? `road-${wayId}` : `highlight-${highlight.id}`,
+    osmId: highlight.osmId,
+    name: highlight.name,
+    roadType: highlight.roadType,
+    length: highlight.length,
+    coordinates: highlight.coordinates as [number, number][],
+  };
+}
@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryClient, QueryCache, MutationCache, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -11,7 +11,7 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
-  options?: { timeout?: number }
+  options?: { timeout?: number; contentType?: string; accept?: string }
 ): Promise<Response> {
   const controller = new AbortController();
   const { signal } = controller;
@@ -24,8 +24,12 @@ export async function apiRequest(
   try {
     const res = await fetch(url, {
       method,
-      headers: data ? { "Content-Type": "application/json" } : {},
-      body: data ? JSON.stringify(data) : undefined,
+      headers: {
+        ...(data ? { "Content-Type": options?.contentType ?? "application/json" } : {}),
+        ...(options?.accept ? { Accept: options.accept } : {}),
+      },
+      // Data with an explicit content type (e.g. GPX text) is sent as is
+      body: data ? (options?.contentType ? data as BodyInit : JSON.stringify(data)) : undefined,
       credentials: "include",
       signal
     });
@@ -56,7 +60,19 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+// Query holding the logged-in user; null shows the login screen
+export const USER_QUERY_KEY = ["/api/user"];
+
+// A 401 from any request means the session has ended, so log out locally
+function handleUnauthorized(error: Error) {
+  if (error.message.startsWith("401:")) {
+    queryClient.setQueryData(USER_QUERY_KEY, null);
+  }
+}
+
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleUnauthorized }),
+  mutationCache: new MutationCache({ onError: handleUnauthorized }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
@@ -0,0 +1,219 @@
+import L from 'leaflet';
+import Pbf from 'pbf';
+import { VectorTile } from '@mapbox/vector-tile';
+
+// Layer name the server writes roads to
+const ROADS_LAYER = 'roads';
+
+// How far (in pixels) from a road a click still selects it
+const HIT_TOLERANCE = 6;
+
+// Retry tiles while the server is still loading its roads
+const MAX_TILE_ATTEMPTS = 12;
+
+// A road as decoded from one vector tile, in that tile's pixel space
+export type TileRoad = {
+  roadId: string;
+  name: string;
+  roadType: string;
+  length: number;
+  streetId?: string;
+  lines: L.Point[][];
+};
+
+export type RoadTileStyle = {
+  color: string;
+  weight: number;
+  opacity: number;
+};
+
+export interface RoadTileLayerOptions extends L.GridLayerOptions {
+  areaId: string;
+  style: (road: TileRoad, selected: boolean) => RoadTileStyle;
+  isSelected: (roadId: string) => boolean;
+  isVisible: (road: TileRoad) => boolean;
+}
+
+type RenderedTile = {
+  canvas: HTMLCanvasElement;
+  roads: TileRoad[];
+  controller: AbortController;
+};
+
+function tileKey({ x, y, z }: L.Coords): string {
+  return `${x}:${y}:${z}`;
+}
+
+function distanceToSegment(p: L.Point, a: L.Point, b: L.Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return p.distanceTo(L.point(a.x + t * dx, a.y + t * dy));
+}
+
+async function fetchTile(url: string, signal: AbortSignal): Promise<ArrayBuffer> {
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(url, { credentials: 'include', signal });
+
+    if (response.status === 503 && attempt < MAX_TILE_ATTEMPTS) {
+      const delay = Number(response.headers.get('Retry-After') || 5) * 1000;
+      await new Promise(resolve => setTimeout(resolve, delay));
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`${response.status}: ${response.statusText}`);
+    }
+    return response.arrayBuffer();
+  }
+}
+
+function decodeRoads(buffer: ArrayBuffer, tileSize: number): TileRoad[] {
+  const layer = new VectorTile(new Pbf(buffer)).layers[ROADS_LAYER];
+  if (!layer) return [];
+
+  const scale = tileSize / layer.extent;
+  const roads: TileRoad[] = [];
+
+  for (let i = 0; i < layer.length; i++) {
+    const feature = layer.feature(i);
+    const { roadId, name, roadType, length, streetId } = feature.properties;
+
+    roads.push({
+      roadId: String(roadId),
+      name: String(name),
+      roadType: String(roadType),
+      length: Number(length),
+      streetId: streetId === undefined ? undefined : String(streetId),
+      lines: feature.loadGeometry().map(line =>
+        line.map(point => L.point(point.x * scale, point.y * scale))
+      ),
+    });
+  }
+
+  return roads;
+}
+
+/**
+ * Canvas grid layer drawing roads from the server's vector tiles. Decoded
+ * tiles are kept so selection changes only repaint, and clicks can be
+ * resolved to a road ID without any per-road layers.
+ */
+export class RoadTileLayer extends L.GridLayer {
+  declare options: RoadTileLayerOptions;
+  private rendered = new Map<string, RenderedTile>();
+
+  constructor(options: RoadTileLayerOptions) {
+    super(options);
+
+    this.on('tileunload', (event: L.TileEvent) => {
+      const key = tileKey(event.coords);
+      this.rendered.get(key)?.controller.abort();
+      this.rendered.delete(key);
+    });
+  }
+
+  // Switch to another area's tiles
+  setArea(areaId: string) {
+    if (areaId === this.options.areaId) return;
+    this.options.areaId = areaId;
+    this.redraw();
+  }
+
+  // Redraw every loaded tile after the selection or visibility changed
+  repaint() {
+    this.rendered.forEach(tile => this.paint(tile));
+  }
+
+  // The road under a point on the map, if any
+  roadAt(latlng: L.LatLng): TileRoad | null {
+    const map = this._map;
+    if (!map) return null;
+
+    const zoom = Math.round(map.getZoom());
+    const tileSize = this.getTileSize();
+    const point = map.project(latlng, zoom);
+    const coords = point.unscaleBy(tileSize).floor();
+    const tile = this.rendered.get(tileKey(Object.assign(coords, { z: zoom }) as L.Coords));
+    if (!tile) return null;
+
+    const local = point.subtract(coords.scaleBy(tileSize));
+    let nearest: TileRoad | null = null;
+    let nearestDistance = HIT_TOLERANCE;
+
+    tile.roads.forEach((road) => {
+      if (!this.options.isVisible(road)) return;
+      road.lines.forEach((line) => {
+        for (let i = 0; i < line.length - 1; i++) {
+          const distance = distanceToSegment(local, line[i], line[i + 1]);
+          if (distance <= nearestDistance) {
+            nearest = road;
+            nearestDistance = distance;
+          }
+        }
+      });
+    });
+
+    return nearest;
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const size = this.getTileSize();
+    const ratio = window.devicePixelRatio || 1;
+    const canvas = L.DomUtil.create('canvas', 'leaflet-tile') as HTMLCanvasElement;
+    canvas.width = size.x * ratio;
+    canvas.height = size.y * ratio;
+
+    const tile: RenderedTile = { canvas, roads: [], controller: new AbortController() };
+    this.rendered.set(tileKey(coords), tile);
+
+    const url = `/api/tiles/${coords.z}/${coords.x}/${coords.y}.mvt?area=${this.options.areaId}`;
+    fetchTile(url, tile.controller.signal)
+      .then((buffer) => {
+        tile.roads = decodeRoads(buffer, size.x);
+        this.paint(tile);
+        done(undefined, canvas);
+      })
+      .catch((error) => {
+        if (tile.controller.signal.aborted) return;
+        console.error('Error loading road tile:', error);
+        done(error, canvas);
+      });
+
+    return canvas;
+  }
+
+  private paint({ canvas, roads }: RenderedTile) {
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    const ratio = canvas.width / this.getTileSize().x;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+
+    // Selected roads go last so they are drawn on top
+    const visible = roads.filter(road => this.options.isVisible(road));
+    const selected = visible.filter(road => this.options.isSelected(road.roadId));
+    const unselected = visible.filter(road => !this.options.isSelected(road.roadId));
+
+    [...unselected, ...selected].forEach((road) => {
+      const { color, weight, opacity } = this.options.style(road, this.options.isSelected(road.roadId));
+      context.strokeStyle = color;
+      context.lineWidth = weight;
+      context.globalAlpha = opacity;
+
+      context.beginPath();
+      road.lines.forEach((line) => {
+        line.forEach((point, i) => {
+          if (i === 0) context.moveTo(point.x, point.y);
+          else context.lineTo(point.x, point.y);
+        });
+      });
+      context.stroke();
+    });
+  }
+}
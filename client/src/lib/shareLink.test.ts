@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_INLINE_ROADS_LENGTH, decodeRoadIds, encodeRoadIds, fitsInUrl, viewFromSearch, viewToSearch,
+} from './shareLink';
+
+describe('encodeRoadIds', () => {
+  it('writes sorted way IDs as base 36 deltas', () => {
+    expect(encodeRoadIds(['road-100', 'road-36', 'road-136'])).toBe('10.1s.10');
+  });
+
+  it('leaves out IDs that are not OSM roads', () => {
+    expect(encodeRoadIds(['highlight-3', 'road-abc', 'road-5'])).toBe('5');
+    expect(encodeRoadIds([])).toBe('');
+  });
+
+  it('round-trips through decodeRoadIds', () => {
+    const roadIds = ['road-4001', 'road-4002', 'road-987654321', 'road-12'];
+    expect(decodeRoadIds(encodeRoadIds(roadIds))).toEqual(['road-12', 'road-4001', 'road-4002', 'road-987654321']);
+  });
+});
+
+describe('decodeRoadIds', () => {
+  it('gives nothing for a malformed list', () => {
+    expect(decodeRoadIds('10.!!.3')).toEqual([]);
+  });
+});
+
+describe('viewToSearch and viewFromSearch', () => {
+  const view = { areaId: 'wandsworth', center: [51.456789, -0.191234] as [number, number], zoom: 15, roadIds: ['road-1', 'road-2'] };
+
+  it('round-trips a view', () => {
+    const search = viewToSearch(view);
+
+    expect(search).toBe('area=wandsworth&at=51.45679,-0.19123,15&roads=1.1');
+    expect(viewFromSearch(`?${search}`)).toEqual({ ...view, center: [51.45679, -0.19123] });
+  });
+
+  it('leaves out a selection too long for the URL', () => {
+    const roadIds = Array.from({ length: 1000 }, (_, i) => `road-${i * 1000000}`);
+
+    expect(fitsInUrl(roadIds)).toBe(false);
+    expect(encodeRoadIds(roadIds).length).toBeGreaterThan(MAX_INLINE_ROADS_LENGTH);
+    expect(new URLSearchParams(viewToSearch({ ...view, roadIds })).has('roads')).toBe(false);
+  });
+
+  it('rejects a query without an area or a position', () => {
+    expect(viewFromSearch('?at=51.4,-0.1,15')).toBeNull();
+    expect(viewFromSearch('?area=wandsworth')).toBeNull();
+    expect(viewFromSearch('?area=wandsworth&at=51.4,abc,15')).toBeNull();
+  });
+});
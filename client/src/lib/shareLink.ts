@@ -0,0 +1,82 @@
+// A map view and selection as carried by a shareable link
+export type SharedView = {
+  areaId: string;
+  center: [number, number];
+  zoom: number;
+  roadIds: string[];
+};
+
+// Longest encoded selection kept in the URL; bigger ones need a short link
+export const MAX_INLINE_ROADS_LENGTH = 1500;
+
+const ROAD_ID_PREFIX = 'road-';
+
+/**
+ * Encode road IDs compactly for a URL: the OSM way IDs, sorted, each written
+ * in base 36 as the difference from the one before and joined by dots. Only
+ * roads from the area's OSM data ("road-<way id>") can be shared; the others
+ * are just someone's saved highlights.
+ */
+export function encodeRoadIds(roadIds: string[]): string {
+  const wayIds = roadIds
+    .filter(id => id.startsWith(ROAD_ID_PREFIX))
+    .map(id => Number(id.slice(ROAD_ID_PREFIX.length)))
+    .filter(Number.isSafeInteger)
+    .sort((a, b) => a - b);
+
+  return wayIds.map((wayId, i) => (wayId - (i > 0 ? wayIds[i - 1] : 0)).toString(36)).join('.');
+}
+
+export function decodeRoadIds(text: string): string[] {
+  let wayId = 0;
+  const roadIds: string[] = [];
+
+  for (const part of text.split('.')) {
+    const delta = parseInt(part, 36);
+    if (isNaN(delta)) return [];
+    wayId += delta;
+    roadIds.push(`${ROAD_ID_PREFIX}${wayId}`);
+  }
+  return roadIds;
+}
+
+// Query string for a view, e.g. "area=wandsworth&at=51.45678,-0.19123,15&roads=...".
+// The selection is left out when it's too long for the URL.
+export function viewToSearch(view: SharedView): string {
+  const params = new URLSearchParams({
+    area: view.areaId,
+    at: `${view.center[0].toFixed(5)},${view.center[1].toFixed(5)},${view.zoom}`,
+  });
+
+  const roads = encodeRoadIds(view.roadIds);
+  if (roads && roads.length <= MAX_INLINE_ROADS_LENGTH) {
+    params.set('roads', roads);
+  }
+
+  // Keep the separators readable; they're all allowed in a query
+  return params.toString().replace(/%2C/g, ',');
+}
+
+// Whether every selected road fits in the URL
+export function fitsInUrl(roadIds: string[]): boolean {
+  return encodeRoadIds(roadIds).length <= MAX_INLINE_ROADS_LENGTH;
+}
+
+// The view in a query string, or null if it doesn't describe one
+export function viewFromSearch(search: string): SharedView | null {
+  const params = new URLSearchParams(search);
+  const areaId = params.get('area');
+  const [lat, lng, zoom] = (params.get('at') ?? '').split(',').map(Number);
+
+  if (!areaId || [lat, lng, zoom].some(value => value === undefined || !Number.isFinite(value))) {
+    return null;
+  }
+
+  const roads = params.get('roads');
+  return {
+    areaId,
+    center: [lat, lng],
+    zoom: Math.round(zoom),
+    roadIds: roads ? decodeRoadIds(roads) : [],
+  };
+}
@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// How long a download's object URL is kept before it is released, in ms
+const DOWNLOAD_URL_LIFETIME = 10000
+
+// Save generated text as a file through a temporary download link
+export function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  // Firefox and Safari read the blob some time after click() returns, so
+  // keep the URL around well past that
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME)
+}
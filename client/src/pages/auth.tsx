@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useLogin, useRegister } from '@/hooks/useAuth';
+import { Map } from 'lucide-react';
+
+// Text after the "<status>: " prefix apiRequest adds, preferring the server's
+// message and the first validation problem it lists
+function errorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    const { message, errors } = JSON.parse(body);
+    return errors?.[0]?.message ? `${message}: ${errors[0].message}` : message ?? body;
+  } catch {
+    return body;
+  }
+}
+
+type AuthFormProps = {
+  mode: 'login' | 'register';
+};
+
+const AuthForm: React.FC<AuthFormProps> = ({ mode }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const login = useLogin();
+  const register = useRegister();
+  const mutation = mode === 'login' ? login : register;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    mutation.mutate({ username, password });
+  };
+
+  return (
+    <form className="space-y-3" onSubmit={handleSubmit}>
+      <div className="space-y-1">
+        <Label htmlFor={`${mode}-username`}>Username</Label>
+        <Input
+          id={`${mode}-username`}
+          autoComplete="username"
+          value={username}
+          required
+          onChange={(e) => setUsername(e.target.value)}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          minLength={mode === 'register' ? 8 : undefined}
+          value={password}
+          required
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+
+      {mutation.error && (
+        <p className="text-sm text-red-600">{errorMessage(mutation.error)}</p>
+      )}
+
+      <Button type="submit" className="w-full" disabled={mutation.isPending}>
+        {mode === 'login' ? 'Log In' : 'Create Account'}
+      </Button>
+    </form>
+  );
+};
+
+// Shown instead of the map until someone logs in
+const AuthPage: React.FC = () => {
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-sm mx-4 overflow-hidden">
+        <CardHeader className="p-4 bg-primary text-white">
+          <h1 className="text-xl font-semibold flex items-center">
+            <Map className="h-6 w-6 mr-2" />
+            Road Highlighter
+          </h1>
+        </CardHeader>
+        <CardContent className="p-4">
+          <Tabs defaultValue="login">
+            <TabsList className="w-full mb-4">
+              <TabsTrigger value="login" className="flex-1">Log In</TabsTrigger>
+              <TabsTrigger value="register" className="flex-1">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login" className="mt-0">
+              <AuthForm mode="login" />
+            </TabsContent>
+            <TabsContent value="register" className="mt-0">
+              <AuthForm mode="register" />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuthPage;
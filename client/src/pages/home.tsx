@@ -1,41 +1,213 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import MapContainer from '@/components/MapContainer';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useLocation, useParams, useSearch } from 'wouter';
+import MapContainer, { type SelectionMode, type ColorMode, type MapBounds, type MapViewport } from '@/components/MapContainer';
 import ControlPanel from '@/components/ControlPanel';
 import MobileControls from '@/components/MobileControls';
 import Tutorial from '@/components/Tutorial';
-import { useRoadsByBounds, usePreloadWandsworthRoads } from '@/hooks/useMapData';
-import { Road } from '@shared/schema';
+import {
+  useRoadsByBounds, usePreloadAreaRoads, useBoundary, useAreas, useCoverage, useCollections, useRoadHighlights,
+  useWorkspaces, useLiveUpdates, useCreateShare, fetchStreet, fetchCollectionHighlights, fetchShare, fetchRoadsById,
+} from '@/hooks/useMapData';
+import { Road, Street, RoadHighlight, RoadCoverage, RoadSearchResult } from '@shared/schema';
+import { toast } from '@/hooks/use-toast';
+import { roadFromHighlight } from '@/lib/highlights';
+import { type SharedView, viewToSearch, viewFromSearch, fitsInUrl } from '@/lib/shareLink';
 
-// Define the Wandsworth center coordinates
-const WANDSWORTH_CENTER: [number, number] = [51.4571, -0.1927];
+// Wait for the map to settle before writing the view into the URL
+const URL_SYNC_DELAY = 500;
 
-// Define the Wandsworth bounds
-const WANDSWORTH_BOUNDS = [
-  [51.4232, -0.2392], // Southwest
-  [51.4910, -0.1462], // Northeast
-];
+// Extent of the given roads, or null if there are none
+function boundsOfRoads(roads: Road[]): MapBounds | null {
+  const points = roads.flatMap(road => road.coordinates);
+  if (points.length === 0) return null;
+
+  const lats = points.map(([lat]) => lat);
+  const lngs = points.map(([, lng]) => lng);
+  return {
+    swLat: Math.min(...lats),
+    swLng: Math.min(...lngs),
+    neLat: Math.max(...lats),
+    neLng: Math.max(...lngs),
+  };
+}
 
 const Home: React.FC = () => {
+  // A short link's code (on /s/:code) or a view in the query string to open at
+  const { code } = useParams<{ code?: string }>();
+  const search = useSearch();
+  const [, navigate] = useLocation();
+
   // App state
   const [selectedRoads, setSelectedRoads] = useState<Record<string, Road>>({});
   const [selectedRoad, setSelectedRoad] = useState<Road | null>(null);
+  const [selectedStreet, setSelectedStreet] = useState<Street | null>(null);
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('way');
+  const [colorMode, setColorMode] = useState<ColorMode>('roadType');
   const [totalLength, setTotalLength] = useState(0);
   const [showTutorial, setShowTutorial] = useState(true);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
   const [isPanelVisible, setIsPanelVisible] = useState(!isMobile);
-  const [mapBounds, setMapBounds] = useState<{
-    swLat: number;
-    swLng: number;
-    neLat: number;
-    neLng: number;
-  } | null>(null);
+  const [mapBounds, setMapBounds] = useState<MapBounds | null>(null);
+  const [view, setView] = useState<{ center: [number, number]; zoom: number } | null>(null);
+  const mapViewportRef = useRef<MapViewport>(null);
+  // The shared view being opened: undefined while a short link loads, null if none
+  const [sharedView, setSharedView] = useState<SharedView | null | undefined>(
+    () => code ? undefined : viewFromSearch(search)
+  );
+  const [selectedAreaId, setSelectedAreaId] = useState<string | null>(() => sharedView?.areaId ?? null);
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState<number | null>(null);
+  const [collectionId, setCollectionId] = useState<number | null>(null);
+
+  // Areas configured on the server; the server's default is used until one is picked
+  const { data: areasData } = useAreas();
+  const areas = areasData?.areas || [];
+  const area = areas.find(a => a.id === (selectedAreaId ?? areasData?.defaultAreaId));
+
+  // Workspaces the user shares highlights in; the first is used until one is picked
+  const { data: workspaces = [] } = useWorkspaces();
+  const workspace = workspaces.find(w => w.id === selectedWorkspaceId) ?? workspaces[0];
+
+  // The workspace's highlight collections; the selection is drawn in the active one's colour
+  const { data: collections = [] } = useCollections(workspace?.id);
+  const collection = collections.find(c => c.id === collectionId);
+
+  // Saved highlights (the active collection's, or all) by road ID, for their
+  // annotations and custom colours
+  const { data: highlights } = useRoadHighlights(workspace?.id, collectionId ?? undefined);
+  const highlightsByRoad = useMemo(() => {
+    const byRoad: Record<string, RoadHighlight> = {};
+    highlights?.forEach((highlight) => {
+      byRoad[roadFromHighlight(highlight).id] = highlight;
+    });
+    return byRoad;
+  }, [highlights]);
+  // Teammates' changes arrive live; their selections and pointers too
+  const { peers, updatePresence } = useLiveUpdates(workspace?.id, collectionId);
+  const peerList = useMemo(() => Object.values(peers), [peers]);
+
+  useEffect(() => {
+    updatePresence({ selection: Object.keys(selectedRoads) });
+  }, [selectedRoads, updatePresence]);
+
+  const handleCursorMove = useCallback((cursor: [number, number] | null) => {
+    updatePresence({ cursor });
+  }, [updatePresence]);
+
+  const highlightColors = useMemo(() => {
+    const colors: Record<string, string> = {};
+    Object.entries(highlightsByRoad).forEach(([roadId, highlight]) => {
+      if (highlight.color) colors[roadId] = highlight.color;
+    });
+    return colors;
+  }, [highlightsByRoad]);
 
   // Fetch roads data for the current view
-  const { data: roadsData, isLoading } = useRoadsByBounds(mapBounds);
+  const { data: roadsData, isLoading } = useRoadsByBounds(mapBounds, area?.id, view?.zoom);
   const roads = roadsData?.roads || [];
+
+  // Area outline, drawn on the map and used as the reset extent
+  const { data: boundary } = useBoundary(area?.id);
   
-  // Preload all Wandsworth roads in the background
-  usePreloadWandsworthRoads();
+  // Preload all of the area's roads in the background
+  usePreloadAreaRoads(area);
+
+  // The workspace's street challenge coverage, keyed by road ID for the map's colouring
+  const { data: coverageData } = useCoverage(workspace?.id, area?.id);
+  const coverageByRoad = useMemo(() => {
+    const byRoad: Record<string, RoadCoverage> = {};
+    coverageData?.coverage.forEach((record) => {
+      byRoad[record.roadId] = record;
+    });
+    return byRoad;
+  }, [coverageData]);
+
+  // Look up the short link's view, then open the area it is in
+  useEffect(() => {
+    if (!code) return;
+
+    fetchShare(code)
+      .then((share) => {
+        setSelectedAreaId(share.areaId);
+        setSharedView(share);
+      })
+      .catch((error) => {
+        toast({
+          variant: 'destructive',
+          title: 'Opening shared link failed',
+          description: (error as Error).message,
+        });
+        setSharedView(null);
+      });
+  }, []);
+
+  // A link to an area the server no longer has opens the default area instead
+  useEffect(() => {
+    if (!areasData || selectedAreaId === null || areasData.areas.some(a => a.id === selectedAreaId)) return;
+
+    toast({
+      variant: 'destructive',
+      title: 'Area not found',
+      description: `The link's area "${selectedAreaId}" is not available, so the default area is shown.`,
+    });
+    setSelectedAreaId(null);
+    setSharedView(null);
+  }, [areasData, selectedAreaId]);
+
+  // Select the shared roads once the area they're in is known to exist
+  useEffect(() => {
+    if (!sharedView || sharedView.roadIds.length === 0 || !areasData) return;
+    if (!areasData.areas.some(a => a.id === sharedView.areaId)) return;
+
+    fetchRoadsById(sharedView.areaId, sharedView.roadIds)
+      .then((roads) => {
+        setSelectedRoads(Object.fromEntries(roads.map(road => [road.id, road])));
+      })
+      .catch((error) => {
+        toast({
+          variant: 'destructive',
+          title: 'Loading shared roads failed',
+          description: (error as Error).message,
+        });
+      });
+  }, [sharedView, areasData]);
+
+  // Keep the URL describing the current view and selection, so it can be
+  // copied as is (selections too big for it are shared by short link)
+  useEffect(() => {
+    if (!area || !view || sharedView === undefined) return;
+
+    const timer = setTimeout(() => {
+      navigate(`/?${viewToSearch({ areaId: area.id, ...view, roadIds: Object.keys(selectedRoads) })}`, { replace: true });
+    }, URL_SYNC_DELAY);
+    return () => clearTimeout(timer);
+  }, [area, view, selectedRoads, sharedView, navigate]);
+
+  const handleViewChange = useCallback((center: [number, number], zoom: number) => {
+    setView({ center, zoom });
+  }, []);
+
+  // Copy a link to the current view and selection, saving it behind a short
+  // link when the selection doesn't fit in the URL
+  const createShare = useCreateShare();
+  const handleShare = useCallback(async () => {
+    if (!area || !view) return;
+    const roadIds = Object.keys(selectedRoads);
+
+    try {
+      const link = fitsInUrl(roadIds)
+        ? `${window.location.origin}/?${viewToSearch({ areaId: area.id, ...view, roadIds })}`
+        : `${window.location.origin}/s/${(await createShare.mutateAsync({ areaId: area.id, ...view, roadIds })).code}`;
+
+      await navigator.clipboard.writeText(link);
+      toast({ title: 'Link copied', description: 'Anyone on the team can open it to see this view and selection.' });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Sharing failed',
+        description: (error as Error).message,
+      });
+    }
+  }, [area, view, selectedRoads, createShare]);
 
   // Handle window resize
   useEffect(() => {
@@ -51,16 +223,14 @@ const Home: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Calculate total length when selectedRoads changes
+  // Calculate total length inside the area when selectedRoads changes
   useEffect(() => {
-    const length = Object.values(selectedRoads).reduce((total, road) => total + road.length, 0);
+    const length = Object.values(selectedRoads).reduce((total, road) => total + (road.inAreaLength ?? road.length), 0);
     setTotalLength(length);
   }, [selectedRoads]);
 
-  // Handle road selection
-  const handleRoadSelect = useCallback((road: Road | null) => {
-    if (!road) return;
-
+  // Toggle a single way in the selection
+  const toggleRoad = useCallback((road: Road) => {
     setSelectedRoads((prev) => {
       const newSelectedRoads = { ...prev };
       
@@ -75,50 +245,166 @@ const Home: React.FC = () => {
 
     // Set the most recently selected road for display in the control panel
     setSelectedRoad(road);
+    setSelectedStreet(null);
   }, []);
 
-  // Reset map view
-  const handleResetView = useCallback(() => {
-    if (mapBounds) {
-      // Reset to the original Wandsworth bounds
-      setMapBounds({
-        swLat: WANDSWORTH_BOUNDS[0][0],
-        swLng: WANDSWORTH_BOUNDS[0][1],
-        neLat: WANDSWORTH_BOUNDS[1][0],
-        neLng: WANDSWORTH_BOUNDS[1][1],
+  // Toggle every way of the clicked road's street, following the clicked way's state
+  const toggleStreet = useCallback(async (road: Road, areaId: string) => {
+    if (!road.streetId) {
+      toggleRoad(road);
+      return;
+    }
+
+    try {
+      const { street, roads: members } = await fetchStreet(areaId, road.streetId);
+
+      setSelectedRoads((prev) => {
+        const newSelectedRoads = { ...prev };
+        const deselect = !!prev[road.id];
+
+        members.forEach((member) => {
+          if (deselect) {
+            delete newSelectedRoads[member.id];
+          } else {
+            newSelectedRoads[member.id] = member;
+          }
+        });
+
+        return newSelectedRoads;
       });
+
+      setSelectedRoad(road);
+      setSelectedStreet(street);
+    } catch (error) {
+      console.error('Error fetching street, selecting the way only:', error);
+      toggleRoad(road);
+    }
+  }, [toggleRoad]);
+
+  // Handle road selection
+  const handleRoadSelect = useCallback((road: Road | null) => {
+    if (!road) return;
+
+    if (selectionMode === 'street' && area) {
+      toggleStreet(road, area.id);
+    } else {
+      toggleRoad(road);
     }
-  }, [mapBounds]);
+  }, [selectionMode, area, toggleRoad, toggleStreet]);
+
+  // Show the whole area again
+  const handleResetView = useCallback(() => {
+    mapViewportRef.current?.resetToArea();
+  }, []);
 
   // Clear selection
   const handleClearSelection = useCallback(() => {
     setSelectedRoads({});
     setSelectedRoad(null);
+    setSelectedStreet(null);
   }, []);
 
-  // Focus on selected road
-  const handleFocusRoad = useCallback(() => {
-    if (selectedRoad && selectedRoad.coordinates.length > 0) {
-      // Calculate bounds from road coordinates
-      const lats = selectedRoad.coordinates.map(coord => coord[0]);
-      const lngs = selectedRoad.coordinates.map(coord => coord[1]);
-      
-      const minLat = Math.min(...lats);
-      const maxLat = Math.max(...lats);
-      const minLng = Math.min(...lngs);
-      const maxLng = Math.max(...lngs);
-      
-      // Add a small padding
-      const padding = 0.005;
-      
-      setMapBounds({
-        swLat: minLat - padding,
-        swLng: minLng - padding,
-        neLat: maxLat + padding,
-        neLng: maxLng + padding,
+  // Fit the map to the given roads, e.g. the selected road or the whole selection
+  const handleFocusRoads = useCallback((roads: Road[]) => {
+    const bounds = boundsOfRoads(roads);
+    if (bounds) mapViewportRef.current?.fitBounds(bounds);
+  }, []);
+
+  // Fly to a road found by name, selecting its whole street if asked to
+  const handleSearchPick = useCallback(async (result: RoadSearchResult, select: boolean) => {
+    mapViewportRef.current?.fitBounds(result.bounds);
+    if (!select || !area) return;
+
+    try {
+      const { street, roads: members } = await fetchStreet(area.id, result.streetId);
+
+      setSelectedRoads((prev) => {
+        const newSelectedRoads = { ...prev };
+        members.forEach((member) => {
+          newSelectedRoads[member.id] = member;
+        });
+        return newSelectedRoads;
+      });
+
+      setSelectedRoad(members[0] ?? null);
+      setSelectedStreet(street);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Selecting road failed',
+        description: (error as Error).message,
+      });
+    }
+  }, [area]);
+
+  // Select the roads of freshly imported highlights so they show up on the map
+  const handleHighlightsImported = useCallback((highlights: RoadHighlight[]) => {
+    setSelectedRoads((prev) => {
+      const newSelectedRoads = { ...prev };
+      highlights.map(roadFromHighlight).forEach((road) => {
+        newSelectedRoads[road.id] = road;
+      });
+      return newSelectedRoads;
+    });
+  }, []);
+
+  // Make the selection exactly the given highlights, keeping the full road
+  // (with its in-area length and street) of any already selected
+  const selectHighlights = useCallback((highlights: RoadHighlight[]) => {
+    setSelectedRoads((prev) => {
+      const newSelectedRoads: Record<string, Road> = {};
+      highlights.map(roadFromHighlight).forEach((road) => {
+        newSelectedRoads[road.id] = prev[road.id] ?? road;
+      });
+      return newSelectedRoads;
+    });
+  }, []);
+
+  // Switch collection, loading its roads as the selection
+  const handleCollectionChange = useCallback(async (id: number | null) => {
+    setCollectionId(id);
+    setSelectedRoad(null);
+    setSelectedStreet(null);
+    if (id === null || !workspace) return;
+
+    try {
+      selectHighlights(await fetchCollectionHighlights(workspace.id, id));
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Loading collection failed',
+        description: (error as Error).message,
       });
     }
-  }, [selectedRoad]);
+  }, [workspace, selectHighlights]);
+
+  // Switch workspace; its collections are separate, so start without one
+  const handleWorkspaceChange = useCallback((workspaceId: number) => {
+    setSelectedWorkspaceId(workspaceId);
+    setCollectionId(null);
+    setSelectedRoad(null);
+    setSelectedStreet(null);
+  }, []);
+
+  // Add the roads a GPS track followed to the selection
+  const handleTrackMatched = useCallback((roads: Road[]) => {
+    setSelectedRoads((prev) => {
+      const newSelectedRoads = { ...prev };
+      roads.forEach((road) => {
+        newSelectedRoads[road.id] = road;
+      });
+      return newSelectedRoads;
+    });
+  }, []);
+
+  // Switch to another area, dropping the selection made in the previous one
+  const handleAreaChange = useCallback((areaId: string) => {
+    setSelectedAreaId(areaId);
+    setCollectionId(null);
+    setSelectedRoads({});
+    setSelectedRoad(null);
+    setSelectedStreet(null);
+  }, []);
 
   // Toggle control panel visibility on mobile
   const handleToggleControlPanel = useCallback(() => {
@@ -127,24 +413,62 @@ const Home: React.FC = () => {
 
   return (
     <div className="relative w-full h-screen overflow-hidden">
-      <MapContainer
-        onRoadSelect={handleRoadSelect}
-        selectedRoads={selectedRoads}
-        setMapBounds={setMapBounds}
-        roads={roads}
-      />
+      {/* The map is created once the area (and so its centre and zoom limits) and
+          any shared view to open at are known */}
+      {area && sharedView !== undefined && (
+        <MapContainer
+          ref={mapViewportRef}
+          onRoadSelect={handleRoadSelect}
+          selectedRoads={selectedRoads}
+          setMapBounds={setMapBounds}
+          roads={roads}
+          area={area}
+          initialView={sharedView ?? undefined}
+          onViewChange={handleViewChange}
+          boundary={boundary}
+          selectionMode={selectionMode}
+          onSelectionModeChange={setSelectionMode}
+          colorMode={colorMode}
+          onColorModeChange={setColorMode}
+          coverage={coverageByRoad}
+          selectionColor={collection?.color}
+          highlightColors={highlightColors}
+          peers={peerList}
+          onCursorMove={handleCursorMove}
+        />
+      )}
       
       <ControlPanel
+        area={area}
+        areas={areas}
+        onAreaChange={handleAreaChange}
+        workspaces={workspaces}
+        workspace={workspace}
+        onWorkspaceChange={handleWorkspaceChange}
+        collections={collections}
+        collection={collection}
+        onCollectionChange={handleCollectionChange}
+        onCollectionSaved={selectHighlights}
+        peers={peerList}
         selectedRoad={selectedRoad}
+        selectedStreet={selectedStreet}
+        selectedHighlight={selectedRoad ? highlightsByRoad[selectedRoad.id] : undefined}
         selectedRoads={selectedRoads}
+        coverage={coverageByRoad}
+        coverageProgress={coverageData?.progress ?? null}
         totalLength={totalLength}
         onReset={handleResetView}
         onClearSelection={handleClearSelection}
-        onFocusRoad={handleFocusRoad}
+        onShare={handleShare}
+        onFocusRoads={handleFocusRoads}
+        onSearchPick={handleSearchPick}
+        onHighlightsImported={handleHighlightsImported}
+        onTrackMatched={handleTrackMatched}
         isMobile={isMobile && !isPanelVisible}
       />
       
       <MobileControls
+        area={area}
         onToggleControlPanel={handleToggleControlPanel}
         onReset={handleResetView}
       />
@@ -156,6 +480,7 @@ const Home: React.FC = () => {
       ></div>
       
       <Tutorial
+        areaName={area?.name}
         visible={showTutorial}
         onClose={() => setShowTutorial(false)}
       />
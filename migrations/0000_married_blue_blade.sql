@@ -0,0 +1,9 @@
+CREATE TABLE "road_highlights" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"osm_id" text NOT NULL,
+	"name" text NOT NULL,
+	"road_type" text NOT NULL,
+	"length" real NOT NULL,
+	"coordinates" json NOT NULL,
+	"created_at" text NOT NULL
+);
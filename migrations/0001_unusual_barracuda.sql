@@ -0,0 +1,11 @@
+CREATE TABLE "road_coverage" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"area_id" text NOT NULL,
+	"road_id" text NOT NULL,
+	"status" text NOT NULL,
+	"covered_length" real NOT NULL,
+	"completed_at" text NOT NULL,
+	"completed_by" text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "road_coverage_area_road_idx" ON "road_coverage" USING btree ("area_id","road_id");
\ No newline at end of file
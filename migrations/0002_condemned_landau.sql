@@ -0,0 +1,10 @@
+CREATE TABLE "collections" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"color" text NOT NULL,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "road_highlights" ADD COLUMN "collection_id" integer;--> statement-breakpoint
+ALTER TABLE "road_highlights" ADD CONSTRAINT "road_highlights_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "road_highlights" ADD COLUMN "notes" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "road_highlights" ADD COLUMN "status" text DEFAULT 'planned' NOT NULL;--> statement-breakpoint
+ALTER TABLE "road_highlights" ADD COLUMN "color" text;--> statement-breakpoint
+ALTER TABLE "road_highlights" ADD COLUMN "tags" json DEFAULT '[]'::json NOT NULL;--> statement-breakpoint
+ALTER TABLE "road_highlights" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;
\ No newline at end of file
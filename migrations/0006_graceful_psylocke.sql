@@ -0,0 +1,8 @@
+CREATE TABLE "shares" (
+	"code" text PRIMARY KEY NOT NULL,
+	"area_id" text NOT NULL,
+	"center" json NOT NULL,
+	"zoom" integer NOT NULL,
+	"road_ids" json NOT NULL,
+	"created_at" text NOT NULL
+);
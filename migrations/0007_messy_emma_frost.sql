@@ -0,0 +1,4 @@
+DROP INDEX "road_coverage_area_road_idx";--> statement-breakpoint
+ALTER TABLE "road_coverage" ADD COLUMN "workspace_id" integer;--> statement-breakpoint
+ALTER TABLE "road_coverage" ADD CONSTRAINT "road_coverage_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "road_coverage_workspace_area_road_idx" ON "road_coverage" USING btree ("workspace_id","area_id","road_id");
\ No newline at end of file
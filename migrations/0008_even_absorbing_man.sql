@@ -0,0 +1,24 @@
+-- Highlights, collections and coverage saved before workspaces existed go to a
+-- shared workspace, with every existing user as an owner so no one loses access
+DO $$
+DECLARE
+	default_workspace_id integer;
+BEGIN
+	IF EXISTS (SELECT 1 FROM "collections" WHERE "workspace_id" IS NULL)
+		OR EXISTS (SELECT 1 FROM "road_highlights" WHERE "workspace_id" IS NULL)
+		OR EXISTS (SELECT 1 FROM "road_coverage" WHERE "workspace_id" IS NULL) THEN
+		INSERT INTO "workspaces" ("name", "created_at")
+		VALUES ('Shared workspace', to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'))
+		RETURNING "id" INTO default_workspace_id;
+
+		INSERT INTO "workspace_members" ("workspace_id", "user_id", "role")
+		SELECT default_workspace_id, "id", 'owner' FROM "users";
+
+		UPDATE "collections" SET "workspace_id" = default_workspace_id WHERE "workspace_id" IS NULL;
+		UPDATE "road_highlights" SET "workspace_id" = default_workspace_id WHERE "workspace_id" IS NULL;
+		UPDATE "road_coverage" SET "workspace_id" = default_workspace_id WHERE "workspace_id" IS NULL;
+	END IF;
+END $$;--> statement-breakpoint
+ALTER TABLE "collections" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "road_coverage" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "road_highlights" ALTER COLUMN "workspace_id" SET NOT NULL;
\ No newline at end of file
@@ -0,0 +1,95 @@
+import fs from "fs";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { type Area } from "@shared/schema";
+import { config } from "./config";
+
+const latLngSchema = z.tuple([z.number(), z.number()]);
+
+// Where an area's road geometry comes from; defaults to ROAD_SOURCE and friends
+const roadSourceSpecSchema = z.object({
+  kind: z.enum(["overpass", "file", "fixture"]),
+  osmFile: z.string().optional(),
+  fixture: z.string().optional(),
+}).refine((spec) => spec.kind !== "file" || !!spec.osmFile, {
+  message: 'roadSource.osmFile is required when kind is "file"',
+}).refine((spec) => spec.kind !== "fixture" || !!spec.fixture, {
+  message: 'roadSource.fixture is required when kind is "fixture"',
+});
+
+const areaConfigSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Area ids may only contain a-z, 0-9 and -"),
+  name: z.string().min(1),
+  relationId: z.number().int().positive(),
+  center: latLngSchema,
+  zoom: z.object({
+    min: z.number().int().min(0).max(22),
+    max: z.number().int().min(0).max(22),
+    initial: z.number().int().min(0).max(22),
+  }).default({ min: 12, max: 19, initial: 14 }),
+  roadSource: roadSourceSpecSchema.optional(),
+  // GeoJSON outline used instead of downloading the relation
+  boundaryFile: z.string().optional(),
+  // Rough outline drawn when the real boundary cannot be loaded
+  fallbackOutline: z.array(latLngSchema).optional(),
+});
+
+export type RoadSourceSpec = z.infer<typeof roadSourceSpecSchema>;
+export type AreaConfig = z.infer<typeof areaConfigSchema>;
+
+// Built-in area, used when no AREAS_FILE is configured
+export const WANDSWORTH: AreaConfig = {
+  id: "wandsworth",
+  name: "Wandsworth",
+  relationId: 34837,
+  center: [51.4571, -0.1927],
+  zoom: { min: 12, max: 19, initial: 14 },
+  boundaryFile: config.boundaryFile || undefined,
+  fallbackOutline: [
+    [51.4566, -0.2392],
+    [51.4910, -0.2109],
+    [51.4851, -0.1681],
+    [51.4708, -0.1462],
+    [51.4396, -0.1496],
+    [51.4232, -0.1814],
+    [51.4274, -0.2188],
+    [51.4566, -0.2392],
+  ],
+};
+
+// Read the JSON array of areas from AREAS_FILE, or use the built-in area
+function loadAreas(): AreaConfig[] {
+  if (!config.areasFile) return [WANDSWORTH];
+
+  const json = JSON.parse(fs.readFileSync(config.areasFile, "utf-8"));
+  const result = z.array(areaConfigSchema).min(1).safeParse(json);
+
+  if (!result.success) {
+    throw new Error(`Invalid AREAS_FILE ${config.areasFile}: ${fromZodError(result.error).message}`);
+  }
+
+  const ids = new Set<string>();
+  result.data.forEach((area) => {
+    if (ids.has(area.id)) throw new Error(`Duplicate area id "${area.id}" in ${config.areasFile}`);
+    ids.add(area.id);
+  });
+
+  return result.data;
+}
+
+export const areas = loadAreas();
+
+export const defaultAreaId = config.defaultArea || areas[0].id;
+
+if (!areas.some((area) => area.id === defaultAreaId)) {
+  throw new Error(`DEFAULT_AREA "${defaultAreaId}" is not one of the configured areas`);
+}
+
+export function findArea(id: string): AreaConfig | undefined {
+  return areas.find((area) => area.id === id);
+}
+
+// Client-facing description of an area, without server-side settings
+export function toPublicArea({ id, name, relationId, center, zoom }: AreaConfig): Area {
+  return { id, name, relationId, center, zoom };
+}
@@ -0,0 +1,172 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { type Express, type Request, type Response, type NextFunction, type RequestHandler } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { insertUserSchema, type User, type PublicUser } from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "./storage";
+import { config } from "./config";
+
+declare global {
+  namespace Express {
+    // What passport puts on req.user: the account without its password hash
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function toPublicUser({ password: _password, ...user }: User): PublicUser {
+  return user;
+}
+
+// Sessions live in Postgres when there is a database, so they survive
+// restarts; otherwise in memory, with expired ones swept once a day
+function createSessionStore(): session.Store {
+  if (config.databaseUrl) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ conString: config.databaseUrl, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// Reject requests without a logged-in user
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not logged in' });
+  }
+  next();
+}
+
+/**
+ * Cookie sessions with username/password login through passport, plus the
+ * register, login, logout and current-user routes. Returns the session
+ * middleware so WebSocket upgrades can read the same sessions.
+ */
+export function setupAuth(app: Express): RequestHandler {
+  app.set("trust proxy", 1);
+  const sessionMiddleware = session({
+    secret: config.sessionSecret,
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      maxAge: SESSION_MAX_AGE,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+    },
+  });
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      done(null, toPublicUser(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted account just ends the session
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Create an account and log straight into it
+  app.post('/api/register', async (req, res, next) => {
+    try {
+      const result = insertUserSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid registration details',
+          errors: validationError.details
+        });
+      }
+      
+      if (await storage.getUserByUsername(result.data.username)) {
+        return res.status(409).json({ message: 'Username is already taken' });
+      }
+      
+      const user = toPublicUser(await storage.createUser({
+        username: result.data.username,
+        password: await hashPassword(result.data.password),
+      }));
+      
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json({ user });
+      });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to register',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  app.post('/api/login', (req, res, next) => {
+    passport.authenticate('local', (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: 'Invalid username or password' });
+      }
+      
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json({ user });
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/logout', (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.json({ success: true });
+    });
+  });
+
+  // The logged-in user, or 401 (which the client treats as "show the login screen")
+  app.get('/api/user', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+    res.json({ user: req.user });
+  });
+
+  return sessionMiddleware;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { type Boundary } from "@shared/schema";
+import { assembleRings, boundsOfRings, clipLineToBoundary, pointInBoundary } from "./boundary";
+
+function boundary(rings: [number, number][][]): Boundary {
+  return { relationId: 1, name: "Test", rings, bounds: boundsOfRings(rings), approximate: false };
+}
+
+// A 10×10 square with a 2×2 hole in the middle
+const outer: [number, number][] = [[0, 0], [0, 10], [10, 10], [10, 0], [0, 0]];
+const hole: [number, number][] = [[4, 4], [4, 6], [6, 6], [6, 4], [4, 4]];
+const square = boundary([outer]);
+const squareWithHole = boundary([outer, hole]);
+
+describe("pointInBoundary", () => {
+  it("treats inner rings as holes", () => {
+    expect(pointInBoundary(square, 5, 5)).toBe(true);
+    expect(pointInBoundary(squareWithHole, 5, 5)).toBe(false);
+    expect(pointInBoundary(squareWithHole, 2, 2)).toBe(true);
+    expect(pointInBoundary(squareWithHole, 11, 5)).toBe(false);
+  });
+});
+
+describe("clipLineToBoundary", () => {
+  it("keeps a line wholly inside as it is", () => {
+    const line: [number, number][] = [[1, 1], [2, 2], [3, 1]];
+    expect(clipLineToBoundary(square, line)).toEqual([line]);
+  });
+
+  it("drops a line wholly outside", () => {
+    expect(clipLineToBoundary(square, [[11, 1], [12, 5]])).toEqual([]);
+  });
+
+  it("cuts a line where it crosses the boundary", () => {
+    expect(clipLineToBoundary(square, [[5, -5], [5, 5]])).toEqual([[[5, 0], [5, 5]]]);
+  });
+
+  it("splits a line that leaves and re-enters", () => {
+    expect(clipLineToBoundary(squareWithHole, [[5, 1], [5, 9]])).toEqual([
+      [[5, 1], [5, 4]],
+      [[5, 6], [5, 9]],
+    ]);
+  });
+});
+
+describe("assembleRings", () => {
+  it("joins ways given in any order and direction into closed rings", () => {
+    const rings = assembleRings([
+      [[0, 0], [0, 10]],
+      [[10, 0], [0, 0]],
+      [[0, 10], [10, 10]],
+      [[10, 0], [10, 10]],
+    ]);
+
+    expect(rings).toEqual([[[0, 0], [0, 10], [10, 10], [10, 0], [0, 0]]]);
+  });
+
+  it("closes a ring left open by a gap in the data", () => {
+    expect(assembleRings([[[0, 0], [0, 10], [10, 10], [10, 0]]])).toEqual([outer]);
+  });
+});
@@ -0,0 +1,262 @@
+import fs from "fs";
+import path from "path";
+import { type Boundary, type Road } from "@shared/schema";
+import { config } from "./config";
+import { type Bounds } from "./osm";
+import { type AreaConfig } from "./areas";
+
+// Half-width in degrees of the box drawn around an area's centre when
+// neither its boundary nor a fallback outline is available
+const FALLBACK_BOX_SIZE = 0.05;
+
+export function boundsOfRings(rings: [number, number][][]): Bounds {
+  let swLat = Infinity, swLng = Infinity, neLat = -Infinity, neLng = -Infinity;
+  rings.forEach((ring) => {
+    ring.forEach(([lat, lng]) => {
+      if (lat < swLat) swLat = lat;
+      if (lat > neLat) neLat = lat;
+      if (lng < swLng) swLng = lng;
+      if (lng > neLng) neLng = lng;
+    });
+  });
+  return { swLat, swLng, neLat, neLng };
+}
+
+// Even-odd ray casting across every ring, so inner rings act as holes
+export function pointInBoundary(boundary: Boundary, lat: number, lng: number): boolean {
+  const { swLat, swLng, neLat, neLng } = boundary.bounds;
+  if (lat < swLat || lat > neLat || lng < swLng || lng > neLng) return false;
+
+  let inside = false;
+  boundary.rings.forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [latI, lngI] = ring[i];
+      const [latJ, lngJ] = ring[j];
+      if ((latI > lat) !== (latJ > lat) &&
+          lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+        inside = !inside;
+      }
+    }
+  });
+  return inside;
+}
+
+// A road belongs to the area when any of its points lies inside the boundary
+export function roadInBoundary(boundary: Boundary, road: Road): boolean {
+  return road.coordinates.some(([lat, lng]) => pointInBoundary(boundary, lat, lng));
+}
+
+// Parameters along p0→p1 where it crosses the boundary's edges, in order
+function crossings(boundary: Boundary, p0: [number, number], p1: [number, number]): number[] {
+  const dLat = p1[0] - p0[0];
+  const dLng = p1[1] - p0[1];
+  const ts: number[] = [];
+
+  boundary.rings.forEach((ring) => {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [aLat, aLng] = ring[i];
+      const eLat = ring[i + 1][0] - aLat;
+      const eLng = ring[i + 1][1] - aLng;
+
+      const denominator = dLat * eLng - dLng * eLat;
+      if (denominator === 0) continue; // Parallel
+
+      const t = ((aLat - p0[0]) * eLng - (aLng - p0[1]) * eLat) / denominator;
+      const u = ((aLat - p0[0]) * dLng - (aLng - p0[1]) * dLat) / denominator;
+      if (t > 0 && t < 1 && u >= 0 && u <= 1) ts.push(t);
+    }
+  });
+
+  return ts.sort((a, b) => a - b);
+}
+
+function interpolate(p0: [number, number], p1: [number, number], t: number): [number, number] {
+  if (t === 0) return p0;
+  if (t === 1) return p1;
+  return [p0[0] + (p1[0] - p0[0]) * t, p0[1] + (p1[1] - p0[1]) * t];
+}
+
+/**
+ * Cut a line down to the parts inside the boundary. A road can leave and
+ * re-enter the area, so the result is a list of pieces (empty when the
+ * line lies wholly outside).
+ */
+export function clipLineToBoundary(boundary: Boundary, line: [number, number][]): [number, number][][] {
+  const pieces: [number, number][][] = [];
+  let piece: [number, number][] | null = null;
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const p0 = line[i];
+    const p1 = line[i + 1];
+    const ts = [0, ...crossings(boundary, p0, p1), 1];
+
+    // Each stretch between crossings is either wholly inside or outside
+    for (let j = 0; j < ts.length - 1; j++) {
+      if (ts[j + 1] - ts[j] <= 0) continue;
+      const [midLat, midLng] = interpolate(p0, p1, (ts[j] + ts[j + 1]) / 2);
+
+      if (pointInBoundary(boundary, midLat, midLng)) {
+        if (!piece) {
+          piece = [interpolate(p0, p1, ts[j])];
+          pieces.push(piece);
+        }
+        piece.push(interpolate(p0, p1, ts[j + 1]));
+      } else {
+        piece = null;
+      }
+    }
+  }
+
+  return pieces;
+}
+
+function samePoint(a: [number, number], b: [number, number]): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/**
+ * Join relation member ways into closed rings. OSM splits a boundary into
+ * many ways whose endpoints touch, in no particular order or direction.
+ */
+export function assembleRings(lines: [number, number][][]): [number, number][][] {
+  const remaining = lines.filter((line) => line.length > 1).map((line) => [...line]);
+  const rings: [number, number][][] = [];
+
+  while (remaining.length > 0) {
+    const ring = remaining.shift()!;
+
+    while (!samePoint(ring[0], ring[ring.length - 1])) {
+      const end = ring[ring.length - 1];
+      const nextIndex = remaining.findIndex((line) =>
+        samePoint(line[0], end) || samePoint(line[line.length - 1], end)
+      );
+      if (nextIndex === -1) break;
+
+      const [next] = remaining.splice(nextIndex, 1);
+      if (!samePoint(next[0], end)) next.reverse();
+      ring.push(...next.slice(1));
+    }
+
+    // Close rings left open by gaps in the data
+    if (!samePoint(ring[0], ring[ring.length - 1])) ring.push(ring[0]);
+    if (ring.length >= 4) rings.push(ring);
+  }
+
+  return rings;
+}
+
+function createBoundary(relationId: number, name: string, rings: [number, number][][], approximate = false): Boundary {
+  if (rings.length === 0) {
+    throw new Error(`Boundary relation ${relationId} has no usable rings`);
+  }
+  return { relationId, name, rings, bounds: boundsOfRings(rings), approximate };
+}
+
+// Fetch the relation with inline member geometry from Overpass
+async function fetchBoundaryFromOverpass(url: string, relationId: number): Promise<Boundary> {
+  const overpassQuery = `
+    [out:json];
+    relation(${relationId});
+    out geom;
+  `;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: `data=${encodeURIComponent(overpassQuery)}`,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Overpass API returned ${response.status}: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const relation = data.elements?.find((element: any) =>
+    element.type === 'relation' && element.id === relationId
+  );
+
+  if (!relation) {
+    throw new Error(`Overpass response does not contain relation ${relationId}`);
+  }
+
+  const lines: [number, number][][] = relation.members
+    .filter((member: any) => member.type === 'way' && member.geometry &&
+      (member.role === 'outer' || member.role === 'inner'))
+    .map((member: any) => member.geometry.map((point: any) => [point.lat, point.lon]));
+
+  return createBoundary(relationId, relation.tags?.name ?? `Relation ${relationId}`, assembleRings(lines));
+}
+
+// Read a GeoJSON Polygon/MultiPolygon (Feature, FeatureCollection or bare geometry)
+function boundaryFromGeoJson(json: any, relationId: number): Boundary {
+  const feature = json.type === 'FeatureCollection' ? json.features?.[0] : json;
+  const geometry = feature?.type === 'Feature' ? feature.geometry : feature;
+
+  let polygons: number[][][][];
+  if (geometry?.type === 'Polygon') {
+    polygons = [geometry.coordinates];
+  } else if (geometry?.type === 'MultiPolygon') {
+    polygons = geometry.coordinates;
+  } else {
+    throw new Error('Boundary GeoJSON must contain a Polygon or MultiPolygon');
+  }
+
+  // GeoJSON positions are [lng, lat]
+  const rings = polygons.flatMap((polygon) =>
+    polygon.map((ring) => ring.map(([lng, lat]) => [lat, lng] as [number, number]))
+  );
+
+  return createBoundary(relationId, feature?.properties?.name ?? `Relation ${relationId}`, rings);
+}
+
+// Outline used when the real boundary cannot be loaded
+function fallbackOutline(area: AreaConfig): [number, number][] {
+  if (area.fallbackOutline) return area.fallbackOutline;
+
+  const [lat, lng] = area.center;
+  return [
+    [lat - FALLBACK_BOX_SIZE, lng - FALLBACK_BOX_SIZE],
+    [lat + FALLBACK_BOX_SIZE, lng - FALLBACK_BOX_SIZE],
+    [lat + FALLBACK_BOX_SIZE, lng + FALLBACK_BOX_SIZE],
+    [lat - FALLBACK_BOX_SIZE, lng + FALLBACK_BOX_SIZE],
+    [lat - FALLBACK_BOX_SIZE, lng - FALLBACK_BOX_SIZE],
+  ];
+}
+
+/**
+ * Load an area's boundary, trying in order: its GeoJSON file, the copy
+ * cached on disk, then Overpass. Falls back to a rough outline (which is
+ * not used for filtering, or cached) so the app still starts fully offline;
+ * callers load again later to replace it.
+ */
+export async function loadBoundary(area: AreaConfig): Promise<Boundary> {
+  const { relationId } = area;
+
+  if (area.boundaryFile) {
+    const json = JSON.parse(await fs.promises.readFile(area.boundaryFile, "utf-8"));
+    return boundaryFromGeoJson(json, relationId);
+  }
+
+  const cachePath = path.join(config.cacheDir, `boundary-${relationId}.json`);
+
+  try {
+    return JSON.parse(await fs.promises.readFile(cachePath, "utf-8")) as Boundary;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error('Error reading cached boundary:', error);
+    }
+  }
+
+  try {
+    const boundary = await fetchBoundaryFromOverpass(config.overpassUrl, relationId);
+    await fs.promises.mkdir(config.cacheDir, { recursive: true });
+    await fs.promises.writeFile(cachePath, JSON.stringify(boundary));
+    console.log(`Loaded boundary of ${boundary.name} with ${boundary.rings.length} rings`);
+    return boundary;
+  } catch (error) {
+    console.error(`Error fetching boundary of ${area.name}, using approximate outline:`, error);
+    return createBoundary(relationId, `${area.name} (approximate)`, [fallbackOutline(area)], true);
+  }
+}
@@ -0,0 +1,62 @@
+import path from "path";
+
+// Runtime configuration read from the environment at boot
+
+export type RoadSourceKind = "overpass" | "file" | "fixture";
+
+function parseRoadSource(value: string | undefined): RoadSourceKind {
+  if (!value) return "overpass";
+  if (value === "overpass" || value === "file" || value === "fixture") return value;
+  throw new Error(`Unknown ROAD_SOURCE "${value}", expected "overpass", "file" or "fixture"`);
+}
+
+const roadSource = parseRoadSource(process.env.ROAD_SOURCE);
+
+if (roadSource === "file" && !process.env.OSM_FILE) {
+  throw new Error("ROAD_SOURCE=file requires OSM_FILE to point at a .osm or .osm.pbf extract");
+}
+
+if (roadSource === "fixture" && !process.env.ROAD_FIXTURE) {
+  throw new Error("ROAD_SOURCE=fixture requires ROAD_FIXTURE to point at a saved /api/roads response");
+}
+
+const cacheDir = process.env.CACHE_DIR ?? path.resolve(".cache");
+
+const roadCacheTtlHours = Number(process.env.ROAD_CACHE_TTL_HOURS ?? 24);
+
+if (!(roadCacheTtlHours > 0)) {
+  throw new Error(`ROAD_CACHE_TTL_HOURS must be a positive number, got "${process.env.ROAD_CACHE_TTL_HOURS}"`);
+}
+
+const sessionSecret = process.env.SESSION_SECRET ?? "";
+
+if (!sessionSecret && process.env.NODE_ENV === "production") {
+  throw new Error("SESSION_SECRET must be set in production to sign session cookies");
+}
+
+export const config = {
+  // Postgres connection string; highlights are kept in memory without it
+  databaseUrl: process.env.DATABASE_URL,
+  // Where road geometry comes from: Overpass, a local extract or a JSON fixture
+  roadSource,
+  // Path to the .osm / .osm.pbf extract used when roadSource is "file"
+  osmFile: process.env.OSM_FILE ?? "",
+  // Path to the { roads: [...] } JSON used when roadSource is "fixture"
+  roadFixture: process.env.ROAD_FIXTURE ?? "",
+  // Overpass interpreter URL; point it at `npm run mock:overpass` to work offline
+  overpassUrl: process.env.OVERPASS_URL ?? "https://overpass-api.de/api/interpreter",
+  // Directory for per-area road snapshots and downloaded boundaries
+  cacheDir,
+  // How long a snapshot is served before a background refresh is attempted
+  roadCacheTtlMs: roadCacheTtlHours * 60 * 60 * 1000,
+  // Number of /api/roads bounding box results kept in the LRU
+  roadQueryCacheSize: Number(process.env.ROAD_QUERY_CACHE_SIZE ?? 256),
+  // Optional GeoJSON boundary for the built-in area, used instead of downloading the OSM relation
+  boundaryFile: process.env.BOUNDARY_FILE ?? "",
+  // JSON array of area definitions; only the built-in Wandsworth area without it
+  areasFile: process.env.AREAS_FILE ?? "",
+  // Area id served when requests do not name one; the first area by default
+  defaultArea: process.env.DEFAULT_AREA ?? "",
+  // Secret signing session cookies; a fixed development value without it
+  sessionSecret: sessionSecret || "road-highlighter-development",
+};
@@ -0,0 +1,46 @@
+import { type Road, type RoadCoverage, type CoverageProgress } from "@shared/schema";
+
+function percent(part: number, total: number): number {
+  return total > 0 ? (part / total) * 100 : 0;
+}
+
+/**
+ * Challenge progress for an area, by number of roads and by length. Only
+ * the parts of roads inside the area count, and coverage of roads no longer
+ * in the area's road data is ignored.
+ */
+export function coverageProgress(roads: Road[], coverage: RoadCoverage[]): CoverageProgress {
+  const coverageByRoad = new Map(coverage.map(record => [record.roadId, record]));
+  let fullRoads = 0;
+  let partialRoads = 0;
+  let totalLength = 0;
+  let coveredLength = 0;
+
+  roads.forEach((road) => {
+    const inAreaLength = road.inAreaLength ?? road.length;
+    totalLength += inAreaLength;
+
+    const record = coverageByRoad.get(road.id);
+    if (!record) return;
+
+    if (record.status === "full") {
+      fullRoads++;
+      coveredLength += inAreaLength;
+    } else {
+      partialRoads++;
+      // Assume the covered share is spread like the road's in-area share
+      const share = road.length > 0 ? Math.min(record.coveredLength / road.length, 1) : 0;
+      coveredLength += share * inAreaLength;
+    }
+  });
+
+  return {
+    totalRoads: roads.length,
+    fullRoads,
+    partialRoads,
+    totalLength,
+    coveredLength,
+    percentByCount: percent(fullRoads, roads.length),
+    percentByLength: percent(coveredLength, totalLength),
+  };
+}
@@ -0,0 +1,29 @@
+import path from "path";
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import { config } from "./config";
+
+// Folder holding the SQL generated by `npm run db:generate`.
+// Resolves the same way from server/ (tsx) and dist/ (bundled build).
+const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Any Postgres-flavoured Drizzle client works here (node-postgres in
+// production, PGlite or similar when running against an embedded stand-in)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Create a Drizzle client for the given Postgres connection string
+export function createDatabase(connectionString: string) {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+// Apply any pending migrations so the schema matches shared/schema.ts
+export async function runMigrations(database: ReturnType<typeof createDatabase>): Promise<void> {
+  await migrate(database, { migrationsFolder: MIGRATIONS_FOLDER });
+}
+
+// Shared client, only available when a database has been provisioned
+export const db = config.databaseUrl ? createDatabase(config.databaseUrl) : null;
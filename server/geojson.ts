@@ -0,0 +1,47 @@
+import { type RoadHighlight, type InsertRoadHighlight, type HighlightFeatureCollection } from "@shared/schema";
+import { calculateRoadLength } from "./osm";
+
+// Write highlights as a GeoJSON FeatureCollection (RFC 7946, so [lng, lat])
+export function highlightsToGeoJson(highlights: RoadHighlight[]) {
+  return {
+    type: "FeatureCollection" as const,
+    features: highlights.map((highlight) => ({
+      type: "Feature" as const,
+      id: highlight.id,
+      geometry: {
+        type: "LineString" as const,
+        coordinates: (highlight.coordinates as [number, number][]).map(([lat, lng]) => [lng, lat]),
+      },
+      properties: {
+        name: highlight.name,
+        roadType: highlight.roadType,
+        length: highlight.length,
+        osmId: highlight.osmId,
+        notes: highlight.notes,
+        status: highlight.status,
+        color: highlight.color,
+        tags: highlight.tags,
+        createdAt: highlight.createdAt,
+      },
+    })),
+  };
+}
+
+// Turn a validated upload back into highlights, measuring any without a length
+export function highlightsFromGeoJson(collection: HighlightFeatureCollection): InsertRoadHighlight[] {
+  return collection.features.map(({ geometry, properties }) => {
+    const coordinates = geometry.coordinates.map(([lng, lat]) => [lat, lng] as [number, number]);
+
+    return {
+      osmId: properties.osmId,
+      name: properties.name,
+      roadType: properties.roadType,
+      length: properties.length ?? calculateRoadLength(coordinates),
+      coordinates,
+      notes: properties.notes,
+      status: properties.status,
+      color: properties.color,
+      tags: properties.tags,
+    };
+  });
+}
@@ -1,9 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { db, runMigrations } from "./db";
 
 const app = express();
-app.use(express.json());
+// Highlight imports upload whole GeoJSON files, so allow larger bodies
+app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +39,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (db) {
+    await runMigrations(db);
+    log("database migrations applied");
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,176 @@
+import { type Server, type IncomingMessage } from "http";
+import { type Duplex } from "stream";
+import { type Request, type Response, type RequestHandler } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  liveClientMessageSchema, type LiveServerMessage, type Presence, type PublicUser,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { toPublicUser } from "./auth";
+import { log } from "./vite";
+
+// Where clients open the live updates socket
+const LIVE_PATH = "/ws";
+
+// How often connections are pinged; ones that miss a ping are dropped
+const HEARTBEAT_INTERVAL = 30000;
+
+type Subscriber = {
+  socket: WebSocket;
+  user: PublicUser;
+  workspaceId: number | null;
+  collectionId: number | null;
+  presence: Presence | null;
+  alive: boolean;
+  // Bumped on each subscribe, so an earlier one that finishes late is ignored
+  subscribeSeq: number;
+};
+
+const subscribers = new Set<Subscriber>();
+
+function send(subscriber: Subscriber, message: LiveServerMessage) {
+  if (subscriber.socket.readyState === WebSocket.OPEN) {
+    subscriber.socket.send(JSON.stringify(message));
+  }
+}
+
+// Subscribers looking at the same workspace and collection, other than this one
+function peersOf(subscriber: Subscriber): Subscriber[] {
+  return Array.from(subscribers).filter((other) =>
+    other !== subscriber &&
+    other.workspaceId !== null &&
+    other.workspaceId === subscriber.workspaceId &&
+    other.collectionId === subscriber.collectionId
+  );
+}
+
+// Tell the others in the subscriber's collection that they've gone
+function leave(subscriber: Subscriber) {
+  if (subscriber.presence) {
+    peersOf(subscriber).forEach((peer) => send(peer, { type: "presence-left", userId: subscriber.user.id }));
+    subscriber.presence = null;
+  }
+}
+
+async function handleMessage(subscriber: Subscriber, data: string) {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    return;
+  }
+
+  const result = liveClientMessageSchema.safeParse(json);
+  if (!result.success) return;
+  const message = result.data;
+
+  if (message.type === "subscribe") {
+    const seq = ++subscriber.subscribeSeq;
+    // Only members hear about a workspace
+    const role = await storage.getWorkspaceRole(message.workspaceId, subscriber.user.id);
+    if (seq !== subscriber.subscribeSeq) return;
+    leave(subscriber);
+    subscriber.workspaceId = role ? message.workspaceId : null;
+    subscriber.collectionId = message.collectionId;
+
+    // Catch up on who is already here
+    peersOf(subscriber).forEach((peer) => {
+      if (peer.presence) send(subscriber, { type: "presence", presence: peer.presence });
+    });
+  } else if (subscriber.workspaceId !== null) {
+    subscriber.presence = {
+      userId: subscriber.user.id,
+      username: subscriber.user.username,
+      selection: message.selection,
+      cursor: message.cursor,
+    };
+    peersOf(subscriber).forEach((peer) => send(peer, { type: "presence", presence: subscriber.presence! }));
+  }
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Accept WebSocket connections from logged-in users on /ws. Clients
+ * subscribe to a workspace to hear about highlight changes made in it, and
+ * share their selection and pointer with others in the same collection.
+ * Other upgrade requests (like Vite's HMR socket) are left alone.
+ */
+export function setupLiveUpdates(server: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url ?? "", "http://localhost").pathname !== LIVE_PATH) return;
+
+    // Read the user from the session cookie the same way HTTP requests do
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      try {
+        const session = (req as Request).session as { passport?: { user?: number } } | undefined;
+        const userId = session?.passport?.user;
+        const user = userId === undefined ? undefined : await storage.getUser(userId);
+        if (!user) return reject(socket, "401 Unauthorized");
+
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          const subscriber: Subscriber = {
+            socket: ws,
+            user: toPublicUser(user),
+            workspaceId: null,
+            collectionId: null,
+            presence: null,
+            alive: true,
+            subscribeSeq: 0,
+          };
+          subscribers.add(subscriber);
+
+          ws.on("message", (data) => {
+            handleMessage(subscriber, data.toString()).catch((error) => {
+              log(`live update message failed: ${(error as Error).message}`);
+            });
+          });
+          ws.on("pong", () => {
+            subscriber.alive = true;
+          });
+          ws.on("close", () => {
+            leave(subscriber);
+            subscribers.delete(subscriber);
+          });
+        });
+      } catch (error) {
+        log(`live update connection failed: ${(error as Error).message}`);
+        reject(socket, "500 Internal Server Error");
+      }
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    subscribers.forEach((subscriber) => {
+      if (!subscriber.alive) {
+        subscriber.socket.terminate();
+        return;
+      }
+      subscriber.alive = false;
+      subscriber.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+  server.on("close", () => clearInterval(heartbeat));
+}
+
+// Push a message to everyone subscribed to the workspace
+export function notifyWorkspace(workspaceId: number, message: LiveServerMessage) {
+  subscribers.forEach((subscriber) => {
+    if (subscriber.workspaceId === workspaceId) send(subscriber, message);
+  });
+}
+
+// Stop sending a workspace's changes to someone who is no longer a member
+export function unsubscribeMember(workspaceId: number, userId: number) {
+  subscribers.forEach((subscriber) => {
+    if (subscriber.workspaceId === workspaceId && subscriber.user.id === userId) {
+      leave(subscriber);
+      subscriber.workspaceId = null;
+    }
+  });
+}
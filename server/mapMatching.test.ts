@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { type Road } from "@shared/schema";
+import { calculateRoadLength } from "./osm";
+import { RoadIndex } from "./spatialIndex";
+import { matchTrack } from "./mapMatching";
+
+function road(id: string, coordinates: [number, number][]): Road {
+  return { id, osmId: `way/${id}`, name: id, roadType: "Residential", length: calculateRoadLength(coordinates), coordinates };
+}
+
+// East–west road, a north–south road crossing it, and a parallel road about 65 m north
+const eastWest = road("east-west", [[51.45, -0.17], [51.45, -0.165], [51.45, -0.16]]);
+const northSouth = road("north-south", [[51.445, -0.165], [51.455, -0.165]]);
+const parallel = road("parallel", [[51.4506, -0.17], [51.4506, -0.16]]);
+const index = new RoadIndex([eastWest, northSouth, parallel]);
+
+// A track a few metres off the east–west road
+const alongEastWest = (fromLng: number, toLng: number): [number, number][] => [
+  [51.45005, fromLng],
+  [51.44998, (fromLng + toLng) / 2],
+  [51.45004, toLng],
+];
+
+describe("matchTrack", () => {
+  it("matches a noisy track to the road it ran along", () => {
+    const matches = matchTrack([alongEastWest(-0.17, -0.16)], index);
+
+    expect(matches.map(match => match.roadId)).toEqual(["east-west"]);
+    expect(matches[0].roadLength).toBe(eastWest.length);
+    expect(matches[0].coveredLength).toBeCloseTo(eastWest.length, 1);
+  });
+
+  it("reports only the stretch of the road that was covered", () => {
+    const [match] = matchTrack([alongEastWest(-0.17, -0.165)], index);
+
+    expect(match.roadId).toBe("east-west");
+    expect(match.coveredLength).toBeCloseTo(eastWest.length / 2, 1);
+  });
+
+  it("follows a track turning from one road onto another", () => {
+    const matches = matchTrack([[
+      [51.45, -0.17],
+      [51.45, -0.165],
+      [51.455, -0.165],
+    ]], index);
+
+    expect(matches.map(match => match.roadId).sort()).toEqual(["east-west", "north-south"]);
+  });
+
+  it("matches nothing far from every road", () => {
+    expect(matchTrack([[[51.48, -0.2], [51.481, -0.2]]], index)).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+import { type Road, type TrackMatch } from "@shared/schema";
+import { calculateDistance } from "./osm";
+import { type RoadIndex } from "./spatialIndex";
+
+// Distance between points the track is resampled to, in km
+const SAMPLE_SPACING = 0.01;
+
+// How far a GPS fix may be from the road it was taken on, in km
+const MATCH_RADIUS = 0.03;
+
+// Largest angle between the track and a road for them to be travelling together
+const MAX_HEADING_DIFFERENCE = 50;
+
+// Head start (km) given to the road the previous sample matched, so noise
+// near junctions and parallel roads doesn't make the match flicker
+const SAME_ROAD_BONUS = 0.008;
+
+// Roads covered for less than this (km) are treated as junction noise
+const MIN_COVERED_LENGTH = 0.02;
+
+// Km per degree, for the local flat projection used around each sample
+const KM_PER_DEGREE_LAT = 110.574;
+const KM_PER_DEGREE_LNG_AT_EQUATOR = 111.32;
+
+type TrackSample = {
+  lat: number;
+  lng: number;
+  heading: number; // Degrees, direction of the track at this sample
+};
+
+type RoadProjection = {
+  distance: number; // From the sample to the road, km
+  along: number; // From the road's start to the nearest point, km
+  heading: number; // Degrees, direction of the nearest road segment
+};
+
+function headingOf(dx: number, dy: number): number {
+  return (Math.atan2(dx, dy) * 180) / Math.PI;
+}
+
+// Angle between two lines regardless of travel direction (0-90 degrees)
+function headingDifference(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 180;
+  return Math.min(difference, 180 - difference);
+}
+
+// Resample each line of the track at even spacing, keeping the local heading
+function sampleTrack(lines: [number, number][][]): TrackSample[] {
+  const samples: TrackSample[] = [];
+
+  lines.forEach((line) => {
+    let carried = 0; // Distance walked since the last sample
+
+    for (let i = 0; i < line.length - 1; i++) {
+      const [lat1, lng1] = line[i];
+      const [lat2, lng2] = line[i + 1];
+      const segmentLength = calculateDistance(lat1, lng1, lat2, lng2);
+      if (segmentLength === 0) continue;
+
+      const kmPerDegreeLng = KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos((lat1 * Math.PI) / 180);
+      const heading = headingOf((lng2 - lng1) * kmPerDegreeLng, (lat2 - lat1) * KM_PER_DEGREE_LAT);
+
+      let position = samples.length === 0 || i === 0 ? 0 : SAMPLE_SPACING - carried;
+      while (position <= segmentLength) {
+        const t = position / segmentLength;
+        samples.push({ lat: lat1 + (lat2 - lat1) * t, lng: lng1 + (lng2 - lng1) * t, heading });
+        position += SAMPLE_SPACING;
+      }
+      carried = segmentLength - (position - SAMPLE_SPACING);
+    }
+  });
+
+  return samples;
+}
+
+// Nearest point on a road to a sample, in a flat projection around the sample
+function projectOntoRoad(sample: TrackSample, road: Road): RoadProjection {
+  const kmPerDegreeLng = KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos((sample.lat * Math.PI) / 180);
+  const toKm = ([lat, lng]: [number, number]) => [
+    (lng - sample.lng) * kmPerDegreeLng,
+    (lat - sample.lat) * KM_PER_DEGREE_LAT,
+  ];
+
+  let best: RoadProjection = { distance: Infinity, along: 0, heading: 0 };
+  let walked = 0;
+
+  for (let i = 0; i < road.coordinates.length - 1; i++) {
+    const [ax, ay] = toKm(road.coordinates[i]);
+    const [bx, by] = toKm(road.coordinates[i + 1]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const segmentLength = Math.sqrt(lengthSquared);
+
+    // The sample sits at the origin of the projection
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    const distance = Math.hypot(ax + t * dx, ay + t * dy);
+
+    if (distance < best.distance) {
+      best = { distance, along: walked + t * segmentLength, heading: headingOf(dx, dy) };
+    }
+    walked += segmentLength;
+  }
+
+  return best;
+}
+
+// Total length of a set of [start, end] intervals once overlaps are merged
+function mergedLength(intervals: [number, number][]): number {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let current: [number, number] | null = null;
+
+  sorted.forEach(([start, end]) => {
+    if (current && start <= current[1]) {
+      current[1] = Math.max(current[1], end);
+    } else {
+      if (current) total += current[1] - current[0];
+      current = [start, end];
+    }
+  });
+  if (current) total += current[1] - current[0];
+
+  return total;
+}
+
+/**
+ * Snap a recorded GPS track onto the road network. The track is resampled
+ * every 10 m and each sample is matched to the nearest road running in the
+ * same direction within 30 m, with a bias towards staying on the previous
+ * road. Runs of samples on one road give the stretch of it that was covered.
+ */
+export function matchTrack(lines: [number, number][][], index: RoadIndex): TrackMatch[] {
+  const runsByRoad = new Map<string, { road: Road; intervals: [number, number][] }>();
+  let previous: { road: Road; interval: [number, number] } | null = null;
+
+  sampleTrack(lines).forEach((sample) => {
+    const latRadius = MATCH_RADIUS / KM_PER_DEGREE_LAT;
+    const lngRadius = MATCH_RADIUS / (KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos((sample.lat * Math.PI) / 180));
+    const candidates = index.search({
+      swLat: sample.lat - latRadius,
+      swLng: sample.lng - lngRadius,
+      neLat: sample.lat + latRadius,
+      neLng: sample.lng + lngRadius,
+    });
+
+    let best: { road: Road; projection: RoadProjection; score: number } | null = null;
+    candidates.forEach((road) => {
+      const projection = projectOntoRoad(sample, road);
+      if (projection.distance > MATCH_RADIUS) return;
+      if (headingDifference(projection.heading, sample.heading) > MAX_HEADING_DIFFERENCE) return;
+
+      const score = projection.distance - (previous?.road.id === road.id ? SAME_ROAD_BONUS : 0);
+      if (!best || score < best.score) {
+        best = { road, projection, score };
+      }
+    });
+
+    if (!best) {
+      previous = null;
+      return;
+    }
+
+    const { road, projection } = best as { road: Road; projection: RoadProjection };
+    if (previous?.road.id === road.id) {
+      // Extend the current run along the road
+      previous.interval[0] = Math.min(previous.interval[0], projection.along);
+      previous.interval[1] = Math.max(previous.interval[1], projection.along);
+      return;
+    }
+
+    // Start a new run on this road
+    const interval: [number, number] = [projection.along, projection.along];
+    const runs = runsByRoad.get(road.id) ?? { road, intervals: [] };
+    runs.intervals.push(interval);
+    runsByRoad.set(road.id, runs);
+    previous = { road, interval };
+  });
+
+  const matches: TrackMatch[] = [];
+  runsByRoad.forEach(({ road, intervals }) => {
+    const coveredLength = Math.min(mergedLength(intervals), road.length);
+    if (coveredLength >= MIN_COVERED_LENGTH) {
+      matches.push({ roadId: road.id, coveredLength, roadLength: road.length });
+    }
+  });
+
+  return matches.sort((a, b) => b.coveredLength - a.coveredLength);
+}
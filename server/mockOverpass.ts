@@ -0,0 +1,90 @@
+import express, { type Express } from "express";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+
+// Stand-in Overpass API that replays recorded JSON responses so the app can
+// run without network access:
+//
+//   npm run mock:overpass
+//   OVERPASS_URL=http://localhost:5001/api/interpreter npm run dev
+//
+// Responses are looked up by a hash of the (normalised) Overpass query in
+// the fixtures directory, falling back to default.json. Set
+// MOCK_OVERPASS_UPSTREAM to a real interpreter URL to record misses.
+
+const DEFAULT_FIXTURES_DIR = path.resolve(import.meta.dirname, "..", "fixtures", "overpass");
+
+// Stable file key for a query, ignoring comments and whitespace differences
+export function overpassQueryKey(query: string): string {
+  const normalized = query
+    .replace(/\/\/.*$/gm, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return crypto.createHash("sha1").update(normalized).digest("hex").slice(0, 16);
+}
+
+export function createMockOverpassApp(fixturesDir = DEFAULT_FIXTURES_DIR, upstream?: string): Express {
+  const app = express();
+  app.use(express.urlencoded({ extended: false, limit: "1mb" }));
+
+  app.all("/api/interpreter", async (req, res) => {
+    const query = (req.body?.data ?? req.query.data) as string | undefined;
+
+    if (!query) {
+      return res.status(400).json({ message: 'Missing Overpass query in "data" parameter' });
+    }
+
+    const key = overpassQueryKey(query);
+    const recordedPath = path.join(fixturesDir, `${key}.json`);
+
+    try {
+      if (fs.existsSync(recordedPath)) {
+        console.log(`[mock-overpass] replaying ${key}.json`);
+        return res.type("application/json").send(fs.readFileSync(recordedPath, "utf-8"));
+      }
+
+      if (upstream) {
+        const response = await fetch(upstream, {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: `data=${encodeURIComponent(query)}`,
+        });
+        const body = await response.text();
+
+        if (response.ok) {
+          fs.mkdirSync(fixturesDir, { recursive: true });
+          fs.writeFileSync(recordedPath, body);
+          console.log(`[mock-overpass] recorded ${key}.json`);
+        }
+        return res.status(response.status).type("application/json").send(body);
+      }
+
+      const defaultPath = path.join(fixturesDir, "default.json");
+      if (fs.existsSync(defaultPath)) {
+        console.log(`[mock-overpass] no recording for ${key}, replaying default.json`);
+        return res.type("application/json").send(fs.readFileSync(defaultPath, "utf-8"));
+      }
+
+      res.status(404).json({ message: `No recorded response for query ${key}` });
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to replay Overpass response',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  return app;
+}
+
+// Start the server when run directly (npm run mock:overpass)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.MOCK_OVERPASS_PORT ?? 5001);
+  const fixturesDir = process.env.MOCK_OVERPASS_FIXTURES ?? DEFAULT_FIXTURES_DIR;
+
+  createMockOverpassApp(fixturesDir, process.env.MOCK_OVERPASS_UPSTREAM).listen(port, () => {
+    console.log(`[mock-overpass] serving ${fixturesDir} on port ${port}`);
+  });
+}
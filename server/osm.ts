@@ -0,0 +1,130 @@
+import { type Road } from "@shared/schema";
+
+// Bounding box in the same south/west/north/east order the API uses
+export type Bounds = {
+  swLat: number;
+  swLng: number;
+  neLat: number;
+  neLng: number;
+};
+
+// Minimal OSM way shape shared by the Overpass and file importers
+export type OsmWay = {
+  id: number;
+  nodes: number[];
+  tags: Record<string, string>;
+};
+
+// Calculate the distance between two points in kilometers
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371; // Radius of the earth in km
+  const dLat = deg2rad(lat2 - lat1);
+  const dLon = deg2rad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+function deg2rad(deg: number): number {
+  return deg * (Math.PI / 180);
+}
+
+// Calculate the length of a road based on its coordinates
+export function calculateRoadLength(coordinates: [number, number][]): number {
+  let length = 0;
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const [lat1, lon1] = coordinates[i];
+    const [lat2, lon2] = coordinates[i + 1];
+    length += calculateDistance(lat1, lon1, lat2, lon2);
+  }
+  return length;
+}
+
+// Helper function to map OSM highway types to more user-friendly categories
+export function getRoadType(highwayType: string): string {
+  switch (highwayType) {
+    case 'motorway':
+    case 'trunk':
+      return 'Motorway';
+    case 'primary':
+      return 'Primary';
+    case 'secondary':
+      return 'Secondary';
+    case 'tertiary':
+      return 'Tertiary';
+    case 'residential':
+      return 'Residential';
+    case 'service':
+      return 'Service';
+    case 'footway':
+    case 'path':
+    case 'cycleway':
+      return 'Path';
+    default:
+      return 'Other';
+  }
+}
+
+// Ways we treat as roads: anything with a highway tag and a name,
+// mirroring the `way[highway][name]` Overpass filter
+export function isNamedHighway(tags: Record<string, string> | undefined): boolean {
+  return !!tags && !!tags.highway && !!tags.name;
+}
+
+// Build Road objects from ways, resolving node references through the lookup
+export function assembleRoads(nodes: Map<number, [number, number]>, ways: OsmWay[]): Road[] {
+  const roads: Road[] = [];
+
+  ways.forEach((way) => {
+    if (!way.tags.highway) return;
+
+    const coordinates: [number, number][] = [];
+
+    // Get coordinates for each node in the way
+    way.nodes.forEach((nodeId) => {
+      const nodeCoords = nodes.get(nodeId);
+      if (nodeCoords) {
+        coordinates.push(nodeCoords);
+      }
+    });
+
+    if (coordinates.length > 0) {
+      const roadType = getRoadType(way.tags.highway);
+      const name = way.tags.name || 'Unnamed Road';
+
+      // Calculate road length using the Haversine formula
+      const length = calculateRoadLength(coordinates);
+
+      roads.push({
+        id: `road-${way.id}`,
+        osmId: `way/${way.id}`,
+        name,
+        roadType,
+        length,
+        coordinates,
+      });
+    }
+  });
+
+  return roads;
+}
+
+// Convert the `elements` array of an Overpass JSON response into roads
+export function roadsFromOverpassElements(elements: any[]): Road[] {
+  // Prepare a map of node ID to [lat, lon]
+  const nodes = new Map<number, [number, number]>();
+  const ways: OsmWay[] = [];
+
+  elements.forEach((element: any) => {
+    if (element.type === 'node') {
+      nodes.set(element.id, [element.lat, element.lon]);
+    } else if (element.type === 'way' && element.tags && element.tags.highway) {
+      ways.push({ id: element.id, nodes: element.nodes, tags: element.tags });
+    }
+  });
+
+  return assembleRoads(nodes, ways);
+}
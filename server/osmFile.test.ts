@@ -0,0 +1,142 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import Pbf from "pbf";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { loadRoadsFromOsmFile } from "./osmFile";
+
+type TestNode = { id: number; lat: number; lon: number };
+type TestWay = { id: number; nodes: number[]; tags: Record<string, string> };
+
+const nodes: TestNode[] = [
+  { id: 1, lat: 51.45, lon: -0.16 },
+  { id: 2, lat: 51.451, lon: -0.161 },
+  { id: 3, lat: 51.452, lon: -0.163 },
+  // Far outside the bounds used below
+  { id: 4, lat: 52.5, lon: 1.2 },
+  { id: 5, lat: 52.501, lon: 1.201 },
+];
+
+const ways: TestWay[] = [
+  { id: 100, nodes: [1, 2, 3], tags: { highway: "residential", name: "Broomwood Road" } },
+  { id: 101, nodes: [1, 3], tags: { highway: "service" } },
+  { id: 102, nodes: [2, 3], tags: { building: "yes", name: "Town Hall" } },
+  { id: 103, nodes: [4, 5], tags: { highway: "primary", name: "Far Away Road" } },
+];
+
+const bounds = { swLat: 51.4, swLng: -0.2, neLat: 51.5, neLng: -0.1 };
+
+// Write a raw or zlib-compressed blob preceded by its header, as in a real extract
+function writeBlob(type: string, data: Uint8Array, compress: boolean): Buffer {
+  const blob = new Pbf();
+  if (compress) {
+    blob.writeVarintField(2, data.length);
+    blob.writeBytesField(3, zlib.deflateSync(data));
+  } else {
+    blob.writeBytesField(1, data);
+  }
+  const blobBytes = blob.finish();
+
+  const header = new Pbf();
+  header.writeStringField(1, type);
+  header.writeVarintField(3, blobBytes.length);
+  const headerBytes = header.finish();
+
+  const size = Buffer.alloc(4);
+  size.writeUInt32BE(headerBytes.length);
+  return Buffer.concat([size, headerBytes, blobBytes]);
+}
+
+// A PrimitiveBlock holding the nodes as DenseNodes and the ways
+function writePrimitiveBlock(): Uint8Array {
+  const strings = [""];
+  const stringIndex = (value: string) => {
+    if (!strings.includes(value)) strings.push(value);
+    return strings.indexOf(value);
+  };
+  const delta = (values: number[]) => values.map((value, i) => value - (i > 0 ? values[i - 1] : 0));
+  // Default granularity is 100 nanodegrees
+  const scaled = (degrees: number) => Math.round(degrees * 1e7);
+
+  const group = new Pbf();
+  group.writeMessage(2, (_: null, dense: Pbf) => {
+    dense.writePackedSVarint(1, delta(nodes.map(node => node.id)));
+    dense.writePackedSVarint(8, delta(nodes.map(node => scaled(node.lat))));
+    dense.writePackedSVarint(9, delta(nodes.map(node => scaled(node.lon))));
+  }, null);
+  ways.forEach((way) => {
+    group.writeMessage(3, (_: null, wayPbf: Pbf) => {
+      wayPbf.writeVarintField(1, way.id);
+      wayPbf.writePackedVarint(2, Object.keys(way.tags).map(stringIndex));
+      wayPbf.writePackedVarint(3, Object.values(way.tags).map(stringIndex));
+      wayPbf.writePackedSVarint(8, delta(way.nodes));
+    }, null);
+  });
+  const groupBytes = group.finish();
+
+  const block = new Pbf();
+  block.writeMessage(1, (_: null, table: Pbf) => {
+    strings.forEach(value => table.writeStringField(1, value));
+  }, null);
+  block.writeBytesField(2, groupBytes);
+  return block.finish();
+}
+
+function writeOsmXml(): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<osm version="0.6">',
+    ...nodes.map(node => `  <node id="${node.id}" lat="${node.lat}" lon="${node.lon}"/>`),
+    ...ways.map(way => [
+      `  <way id="${way.id}">`,
+      ...way.nodes.map(ref => `    <nd ref="${ref}"/>`),
+      ...Object.entries(way.tags).map(([k, v]) => `    <tag k="${k}" v="${v}"/>`),
+      "  </way>",
+    ].join("\n")),
+    "</osm>",
+  ].join("\n");
+}
+
+describe("loadRoadsFromOsmFile", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "osm-file-test-"));
+    const block = writePrimitiveBlock();
+    fs.writeFileSync(path.join(dir, "raw.osm.pbf"), Buffer.concat([
+      writeBlob("OSMHeader", new Uint8Array(), false),
+      writeBlob("OSMData", block, false),
+    ]));
+    fs.writeFileSync(path.join(dir, "zlib.osm.pbf"), Buffer.concat([
+      writeBlob("OSMHeader", new Uint8Array(), true),
+      writeBlob("OSMData", block, true),
+    ]));
+    fs.writeFileSync(path.join(dir, "extract.osm"), writeOsmXml());
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each(["raw.osm.pbf", "zlib.osm.pbf", "extract.osm"])("reads named highways in the bounds from %s", async (file) => {
+    const roads = await loadRoadsFromOsmFile(path.join(dir, file), bounds);
+
+    expect(roads).toHaveLength(1);
+    expect(roads[0]).toMatchObject({
+      id: "road-100",
+      osmId: "way/100",
+      name: "Broomwood Road",
+      coordinates: [[51.45, -0.16], [51.451, -0.161], [51.452, -0.163]],
+    });
+    expect(roads[0].length).toBeGreaterThan(0.2);
+  });
+
+  it("rejects a truncated PBF file", async () => {
+    const whole = fs.readFileSync(path.join(dir, "raw.osm.pbf"));
+    const truncated = path.join(dir, "truncated.osm.pbf");
+    fs.writeFileSync(truncated, whole.subarray(0, whole.length - 5));
+
+    await expect(loadRoadsFromOsmFile(truncated, bounds)).rejects.toThrow(/Truncated OSM PBF file/);
+  });
+});
@@ -0,0 +1,276 @@
+import fs from "fs";
+import zlib from "zlib";
+import Pbf from "pbf";
+import sax from "sax";
+import { type Road } from "@shared/schema";
+import { assembleRoads, isNamedHighway, type Bounds, type OsmWay } from "./osm";
+
+// Nodes and candidate road ways collected from an extract
+type OsmFileContents = {
+  nodes: Map<number, [number, number]>;
+  ways: OsmWay[];
+};
+
+/**
+ * Load roads from a local OpenStreetMap extract (.osm XML or .osm.pbf).
+ * Applies the same selection as the Overpass query: named highways with
+ * at least one node inside the given bounds.
+ */
+export async function loadRoadsFromOsmFile(filePath: string, bounds: Bounds): Promise<Road[]> {
+  const contents = filePath.endsWith(".pbf")
+    ? await readOsmPbf(filePath)
+    : await readOsmXml(filePath);
+
+  const { swLat, swLng, neLat, neLng } = bounds;
+  const waysInBounds = contents.ways.filter((way) =>
+    way.nodes.some((nodeId) => {
+      const coords = contents.nodes.get(nodeId);
+      if (!coords) return false;
+      const [lat, lng] = coords;
+      return lat >= swLat && lat <= neLat && lng >= swLng && lng <= neLng;
+    })
+  );
+
+  return assembleRoads(contents.nodes, waysInBounds);
+}
+
+// Stream an .osm XML file, keeping every node and the named highway ways
+function readOsmXml(filePath: string): Promise<OsmFileContents> {
+  return new Promise((resolve, reject) => {
+    const contents: OsmFileContents = { nodes: new Map(), ways: [] };
+    const parser = sax.createStream(true, { trim: true });
+    let currentWay: OsmWay | null = null;
+
+    parser.on("opentag", (tag) => {
+      const attributes = tag.attributes as Record<string, string>;
+
+      switch (tag.name) {
+        case "node":
+          contents.nodes.set(Number(attributes.id), [
+            parseFloat(attributes.lat),
+            parseFloat(attributes.lon),
+          ]);
+          break;
+        case "way":
+          currentWay = { id: Number(attributes.id), nodes: [], tags: {} };
+          break;
+        case "nd":
+          currentWay?.nodes.push(Number(attributes.ref));
+          break;
+        case "tag":
+          if (currentWay) currentWay.tags[attributes.k] = attributes.v;
+          break;
+      }
+    });
+
+    parser.on("closetag", (name) => {
+      if (name === "way" && currentWay) {
+        if (isNamedHighway(currentWay.tags)) contents.ways.push(currentWay);
+        currentWay = null;
+      }
+    });
+
+    parser.on("error", reject);
+    parser.on("end", () => resolve(contents));
+
+    const stream = fs.createReadStream(filePath);
+    stream.on("error", reject);
+    stream.pipe(parser);
+  });
+}
+
+// Decoded PrimitiveBlock header plus the byte ranges of its groups
+type PrimitiveBlock = {
+  strings: string[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+  groups: [number, number][];
+};
+
+// Read an .osm.pbf file blob by blob (see the OSM PBF format spec)
+async function readOsmPbf(filePath: string): Promise<OsmFileContents> {
+  const contents: OsmFileContents = { nodes: new Map(), ways: [] };
+  const handle = await fs.promises.open(filePath, "r");
+
+  try {
+    let position = 0;
+
+    while (true) {
+      // Each blob is prefixed by the big-endian size of its BlobHeader
+      const sizeBytes = await readBytesAt(handle, 4, position);
+      if (!sizeBytes) break;
+      position += 4;
+
+      const headerSize = Buffer.from(sizeBytes).readUInt32BE(0);
+      const header = new Pbf(await readRequiredBytes(handle, headerSize, position)).readFields(
+        readBlobHeaderField,
+        { type: "", dataSize: 0 }
+      );
+      position += headerSize;
+
+      const blob = await readRequiredBytes(handle, header.dataSize, position);
+      position += header.dataSize;
+
+      // OSMHeader blocks only describe the file; all data lives in OSMData
+      if (header.type === "OSMData") {
+        readPrimitiveBlock(new Pbf(decodeBlob(blob)), contents);
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+
+  return contents;
+}
+
+// Read exactly `length` bytes, or null when already at the end of the file
+async function readBytesAt(
+  handle: fs.promises.FileHandle,
+  length: number,
+  position: number
+): Promise<Uint8Array | null> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+
+  if (bytesRead === 0 && length > 0) return null;
+  if (bytesRead < length) {
+    throw new Error(`Truncated OSM PBF file at byte ${position}`);
+  }
+  return buffer;
+}
+
+async function readRequiredBytes(
+  handle: fs.promises.FileHandle,
+  length: number,
+  position: number
+): Promise<Uint8Array> {
+  const bytes = await readBytesAt(handle, length, position);
+  if (!bytes) throw new Error(`Truncated OSM PBF file at byte ${position}`);
+  return bytes;
+}
+
+function readBlobHeaderField(tag: number, header: { type: string; dataSize: number }, pbf: Pbf) {
+  if (tag === 1) header.type = pbf.readString();
+  else if (tag === 3) header.dataSize = pbf.readVarint();
+}
+
+// Extract the raw bytes of a Blob message, inflating zlib data when needed
+function decodeBlob(bytes: Uint8Array): Uint8Array {
+  const blob = new Pbf(bytes).readFields(
+    (tag, result: { raw?: Uint8Array; zlib?: Uint8Array }, pbf) => {
+      if (tag === 1) result.raw = pbf.readBytes();
+      else if (tag === 3) result.zlib = pbf.readBytes();
+    },
+    {}
+  );
+
+  if (blob.raw) return blob.raw;
+  if (blob.zlib) return zlib.inflateSync(blob.zlib);
+  throw new Error("Unsupported OSM PBF blob compression (only raw and zlib are supported)");
+}
+
+function readPrimitiveBlock(pbf: Pbf, contents: OsmFileContents) {
+  const block = pbf.readFields(readPrimitiveBlockField, {
+    strings: [],
+    granularity: 100,
+    latOffset: 0,
+    lonOffset: 0,
+    groups: [],
+  } as PrimitiveBlock);
+
+  // Groups are parsed after the whole block so the string table and
+  // coordinate granularity are known regardless of field order
+  block.groups.forEach(([start, end]) => {
+    pbf.pos = start;
+    pbf.readFields((tag, _result, groupPbf) => {
+      if (tag === 1) readNode(groupPbf, block, contents);
+      else if (tag === 2) readDenseNodes(groupPbf, block, contents);
+      else if (tag === 3) readWay(groupPbf, block, contents);
+    }, null, end);
+  });
+}
+
+function readPrimitiveBlockField(tag: number, block: PrimitiveBlock, pbf: Pbf) {
+  if (tag === 1) {
+    pbf.readMessage((stringTag, strings: string[], stringPbf) => {
+      if (stringTag === 1) strings.push(stringPbf.readString());
+    }, block.strings);
+  } else if (tag === 2) {
+    const end = pbf.readVarint() + pbf.pos;
+    block.groups.push([pbf.pos, end]);
+    pbf.pos = end;
+  } else if (tag === 17) {
+    block.granularity = pbf.readVarint();
+  } else if (tag === 19) {
+    block.latOffset = pbf.readVarint(true);
+  } else if (tag === 20) {
+    block.lonOffset = pbf.readVarint(true);
+  }
+}
+
+// Convert a stored coordinate to degrees, rounded to OSM's 7 decimal places
+function toDegrees(value: number, offset: number, granularity: number): number {
+  return Math.round((offset + granularity * value) / 100) / 1e7;
+}
+
+function readNode(pbf: Pbf, block: PrimitiveBlock, contents: OsmFileContents) {
+  const node = pbf.readMessage((tag, result: { id: number; lat: number; lon: number }, nodePbf) => {
+    if (tag === 1) result.id = nodePbf.readSVarint();
+    else if (tag === 8) result.lat = nodePbf.readSVarint();
+    else if (tag === 9) result.lon = nodePbf.readSVarint();
+  }, { id: 0, lat: 0, lon: 0 });
+
+  contents.nodes.set(node.id, [
+    toDegrees(node.lat, block.latOffset, block.granularity),
+    toDegrees(node.lon, block.lonOffset, block.granularity),
+  ]);
+}
+
+function readDenseNodes(pbf: Pbf, block: PrimitiveBlock, contents: OsmFileContents) {
+  const dense = pbf.readMessage((tag, result: { ids: number[]; lats: number[]; lons: number[] }, densePbf) => {
+    if (tag === 1) densePbf.readPackedSVarint(result.ids);
+    else if (tag === 8) densePbf.readPackedSVarint(result.lats);
+    else if (tag === 9) densePbf.readPackedSVarint(result.lons);
+  }, { ids: [], lats: [], lons: [] });
+
+  // Dense node fields are delta-encoded
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  for (let i = 0; i < dense.ids.length; i++) {
+    id += dense.ids[i];
+    lat += dense.lats[i];
+    lon += dense.lons[i];
+    contents.nodes.set(id, [
+      toDegrees(lat, block.latOffset, block.granularity),
+      toDegrees(lon, block.lonOffset, block.granularity),
+    ]);
+  }
+}
+
+function readWay(pbf: Pbf, block: PrimitiveBlock, contents: OsmFileContents) {
+  const raw = pbf.readMessage((tag, result: { id: number; keys: number[]; vals: number[]; refs: number[] }, wayPbf) => {
+    if (tag === 1) result.id = wayPbf.readVarint();
+    else if (tag === 2) wayPbf.readPackedVarint(result.keys);
+    else if (tag === 3) wayPbf.readPackedVarint(result.vals);
+    else if (tag === 8) wayPbf.readPackedSVarint(result.refs);
+  }, { id: 0, keys: [], vals: [], refs: [] });
+
+  const tags: Record<string, string> = {};
+  raw.keys.forEach((key, i) => {
+    tags[block.strings[key]] = block.strings[raw.vals[i]];
+  });
+
+  if (!isNamedHighway(tags)) return;
+
+  // Node references are delta-encoded
+  const nodes: number[] = [];
+  let ref = 0;
+  raw.refs.forEach((delta) => {
+    ref += delta;
+    nodes.push(ref);
+  });
+
+  contents.ways.push({ id: raw.id, nodes, tags });
+}
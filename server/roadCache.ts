@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { type Road } from "@shared/schema";
+
+// Bump whenever the Road shape or snapshot layout changes so old files are ignored
+export const ROAD_CACHE_VERSION = 1;
+
+// On-disk copy of the master road cache
+export type RoadCacheSnapshot = {
+  version: number;
+  // What the roads were fetched from (see RoadCatalog's snapshotSource)
+  source: string;
+  // When the roads were fetched (ms since epoch)
+  savedAt: number;
+  // sha256 of the serialized roads array
+  checksum: string;
+  roads: Road[];
+};
+
+function checksumOf(roadsJson: string): string {
+  return crypto.createHash("sha256").update(roadsJson).digest("hex");
+}
+
+/**
+ * Read a snapshot written by writeRoadCacheSnapshot. Returns null when the
+ * file is missing, from another version or source, or fails its checksum.
+ */
+export async function readRoadCacheSnapshot(filePath: string, source: string): Promise<RoadCacheSnapshot | null> {
+  let contents: string;
+  try {
+    contents = await fs.promises.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+
+  const snapshot = JSON.parse(contents) as RoadCacheSnapshot;
+
+  if (snapshot.version !== ROAD_CACHE_VERSION) {
+    console.warn(`Ignoring road cache ${filePath}: version ${snapshot.version}, expected ${ROAD_CACHE_VERSION}`);
+    return null;
+  }
+  if (snapshot.source !== source) {
+    console.warn(`Ignoring road cache ${filePath}: saved from ${snapshot.source}, current source is ${source}`);
+    return null;
+  }
+  if (!Array.isArray(snapshot.roads) || checksumOf(JSON.stringify(snapshot.roads)) !== snapshot.checksum) {
+    console.warn(`Ignoring road cache ${filePath}: checksum mismatch`);
+    return null;
+  }
+
+  return snapshot;
+}
+
+// Write the snapshot atomically so a crash mid-write never leaves a torn file
+export async function writeRoadCacheSnapshot(
+  filePath: string,
+  source: string,
+  roads: Road[],
+  savedAt: number
+): Promise<void> {
+  const roadsJson = JSON.stringify(roads);
+  const header = {
+    version: ROAD_CACHE_VERSION,
+    source,
+    savedAt,
+    checksum: checksumOf(roadsJson),
+  };
+  // Splice the pre-serialized roads in rather than stringifying them twice
+  const contents = `${JSON.stringify(header).slice(0, -1)},"roads":${roadsJson}}`;
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempPath, contents);
+  await fs.promises.rename(tempPath, filePath);
+}
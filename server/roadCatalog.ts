@@ -0,0 +1,286 @@
+import path from "path";
+import { type Road, type Boundary, type Street, type TrackMatch, type RoadSearchResult } from "@shared/schema";
+import { config } from "./config";
+import { type AreaConfig } from "./areas";
+import { type RoadSource } from "./roadSources";
+import { readRoadCacheSnapshot, writeRoadCacheSnapshot } from "./roadCache";
+import { RoadIndex } from "./spatialIndex";
+import { LruCache } from "./lru";
+import { loadBoundary, roadInBoundary, clipLineToBoundary } from "./boundary";
+import { calculateRoadLength, type Bounds } from "./osm";
+import { assembleStreets } from "./streets";
+import { RoadTileIndex } from "./vectorTiles";
+import { RoadNameIndex } from "./roadSearch";
+import { DETAIL_LEVELS, detailLevelFor, roadAtDetailLevel } from "@shared/roadDetail";
+import { matchTrack } from "./mapMatching";
+import { type TrackLines } from "./trackFile";
+
+// Upper bound on how often staleness is checked; shorter TTLs check more often
+const CACHE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * All roads of one area: the master cache fetched from its RoadSource,
+ * persisted to disk, indexed for bounding box queries and refreshed in the
+ * background once it outlives its TTL.
+ */
+export class RoadCatalog {
+  private roadCache: LruCache<string, Road[]>; // Recent bounding box results, capped in size
+  private masterCache: Road[] | null; // Master cache for all roads in the area
+  private roadIndex: RoadIndex | null; // Spatial index over the master cache
+  private streets: Map<string, Street>; // Streets assembled from the master cache, by id
+  private roadsById: Map<string, Road>; // Master cache roads by id
+  private detailLevels: Map<string, Road>[]; // Roads by id at each of DETAIL_LEVELS
+  private tileIndex: RoadTileIndex | null; // Vector tiles of the master cache, built on first request
+  private nameIndex: RoadNameIndex | null; // Street name search, built on first request
+  private cacheTimestamp: number; // Timestamp of when the master cache was fetched from the source
+  private isCacheLoading: boolean; // Flag to track if the cache is currently loading
+  private initialLoad: Promise<void>; // Settles once the first master cache load is done
+  private boundary: Promise<Boundary>; // Area outline used to trim roads
+  private snapshotPath: string; // Where this area's master cache is persisted
+
+  constructor(readonly area: AreaConfig, private roadSource: RoadSource) {
+    this.roadCache = new LruCache(config.roadQueryCacheSize);
+    this.masterCache = null;
+    this.roadIndex = null;
+    this.streets = new Map();
+    this.roadsById = new Map();
+    this.detailLevels = [];
+    this.tileIndex = null;
+    this.nameIndex = null;
+    this.cacheTimestamp = 0;
+    this.isCacheLoading = false;
+    this.boundary = loadBoundary(area);
+    this.snapshotPath = path.join(config.cacheDir, `roads-${area.id}.json`);
+
+    // Load the master cache from disk (or the road source) on startup
+    this.initialLoad = this.initMasterCache();
+
+    // Periodically refresh the master cache once it outlives its TTL, or as
+    // soon as the real boundary loads in place of a rough outline
+    setInterval(async () => {
+      if (this.isMasterCacheStale() || await this.reloadApproximateBoundary()) this.refreshMasterCache();
+    }, Math.min(config.roadCacheTtlMs, CACHE_CHECK_INTERVAL_MS)).unref();
+  }
+
+  private async initMasterCache() {
+    try {
+      const snapshot = await readRoadCacheSnapshot(this.snapshotPath, await this.snapshotSource());
+      if (snapshot) {
+        await this.setMasterCache(snapshot.roads, snapshot.savedAt);
+        console.log(`Master cache for ${this.area.name} restored from disk with ${this.masterCache?.length} roads`);
+      }
+    } catch (error) {
+      console.error('Error reading master cache snapshot:', error);
+    }
+
+    if (this.isMasterCacheStale()) {
+      await this.refreshMasterCache();
+    }
+  }
+
+  // Keep only roads inside the area and measure the part of each that lies
+  // within it (unless we only have a rough outline)
+  private async clipToBoundary(roads: Road[]): Promise<Road[]> {
+    const boundary = await this.boundary;
+    if (boundary.approximate) return roads;
+
+    return roads.filter(road => roadInBoundary(boundary, road)).map((road) => {
+      const pieces = clipLineToBoundary(boundary, road.coordinates);
+
+      // Wholly inside: a single piece made of exactly the road's own points
+      const crossesBoundary = pieces.length !== 1 ||
+        pieces[0].length !== road.coordinates.length ||
+        pieces[0].some((point, i) => point !== road.coordinates[i]);
+      if (!crossesBoundary) {
+        return { ...road, inAreaLength: road.length };
+      }
+
+      return {
+        ...road,
+        inAreaLength: pieces.reduce((total, piece) => total + calculateRoadLength(piece), 0),
+        inAreaCoordinates: pieces,
+      };
+    });
+  }
+
+  // Swap in a new master cache, rebuilding the index and dropping stale results.
+  // Snapshots hold the untrimmed bbox so a boundary change needs no refetch.
+  private async setMasterCache(roads: Road[], timestamp: number) {
+    const roadsInBoundary = await this.clipToBoundary(roads);
+
+    // Tag each way with the street it belongs to
+    const streets = assembleStreets(roadsInBoundary);
+    const streetIdByRoadId = new Map<string, string>();
+    streets.forEach(street => street.roadIds.forEach(id => streetIdByRoadId.set(id, street.id)));
+    const tagged = roadsInBoundary.map(road => ({ ...road, streetId: streetIdByRoadId.get(road.id) }));
+
+    this.streets = new Map(streets.map(street => [street.id, street]));
+    this.roadsById = new Map(tagged.map(road => [road.id, road]));
+    this.detailLevels = DETAIL_LEVELS.map((level) => {
+      const roads = new Map<string, Road>();
+      tagged.forEach((road) => {
+        const detailed = roadAtDetailLevel(road, level);
+        if (detailed) roads.set(road.id, detailed);
+      });
+      return roads;
+    });
+    this.roadIndex = new RoadIndex(tagged);
+    this.tileIndex = null;
+    this.nameIndex = null;
+    this.masterCache = tagged;
+    this.cacheTimestamp = timestamp;
+    this.roadCache.clear();
+  }
+
+  // A rough outline only stands in until the real boundary can be loaded, so
+  // try again; true when the real one has now replaced it
+  private async reloadApproximateBoundary(): Promise<boolean> {
+    if (!(await this.boundary).approximate) return false;
+
+    const boundary = await loadBoundary(this.area);
+    if (boundary.approximate) return false;
+
+    this.boundary = Promise.resolve(boundary);
+    return true;
+  }
+
+  // What the master cache is fetched from: the road source's data and the
+  // boundary whose bounding box is asked for
+  private async snapshotSource(): Promise<string> {
+    const boundary = this.area.boundaryFile ?? `relation ${this.area.relationId}`;
+    return `${await this.roadSource.cacheKey()} for ${boundary}`;
+  }
+
+  private isMasterCacheStale(): boolean {
+    return Date.now() - this.cacheTimestamp > config.roadCacheTtlMs;
+  }
+
+  // Refetch all roads from the source. Requests keep being served from the
+  // previous snapshot meanwhile, and it is kept if the refresh fails.
+  private async refreshMasterCache() {
+    if (this.isCacheLoading) return;
+
+    this.isCacheLoading = true;
+    try {
+      console.log(`Refreshing master cache of all ${this.area.name} roads from ${this.roadSource.name}...`);
+      // Fetch everything in the boundary's bounding box
+      await this.reloadApproximateBoundary();
+      const { bounds } = await this.boundary;
+
+      const roads = await this.roadSource.fetchRoads(bounds);
+
+      if (roads.length === 0 && this.masterCache?.length) {
+        throw new Error('Road source returned no roads, keeping the previous snapshot');
+      }
+
+      await this.setMasterCache(roads, Date.now());
+      console.log(`Master cache for ${this.area.name} loaded with ${this.masterCache?.length} roads`);
+
+      await writeRoadCacheSnapshot(this.snapshotPath, await this.snapshotSource(), roads, this.cacheTimestamp);
+    } catch (error) {
+      console.error(`Error refreshing master cache for ${this.area.name}:`, error);
+    } finally {
+      this.isCacheLoading = false;
+    }
+  }
+
+  // Roads crossing the bounds, simplified and thinned out to the zoom's level
+  // of detail (full detail when no zoom is given)
+  async getRoadsByBounds({ swLat, swLng, neLat, neLng }: Bounds, zoom?: number): Promise<Road[]> {
+    const level = detailLevelFor(zoom);
+
+    // Create a cache key for this bounding box (rounded to 4 decimal places for better cache hits)
+    const cacheKey = `${level}:${swLat.toFixed(4)},${swLng.toFixed(4)},${neLat.toFixed(4)},${neLng.toFixed(4)}`;
+
+    // First, check if we already have this specific area cached
+    const cachedRoads = this.roadCache.get(cacheKey);
+    if (cachedRoads) {
+      return cachedRoads;
+    }
+
+    // Next, if we have the master cache, use that instead of making an API call
+    if (this.roadIndex) {
+      // Look up roads crossing the requested bounds in the spatial index
+      const levelRoads = this.detailLevels[level];
+      const filteredRoads = this.roadIndex.search({ swLat, swLng, neLat, neLng })
+        .flatMap(road => levelRoads.get(road.id) ?? []);
+
+      // Cache the filtered result for this specific area
+      this.roadCache.set(cacheKey, filteredRoads);
+
+      return filteredRoads;
+    }
+
+    // Sources that read everything for any bounds would redo the whole load
+    // per request, so wait for it instead
+    if (!this.roadSource.fetchesByBounds) {
+      await this.initialLoad;
+      return this.roadIndex ? this.getRoadsByBounds({ swLat, swLng, neLat, neLng }, zoom) : [];
+    }
+
+    // If neither cache is available, fetch from the road source
+    try {
+      const roads = (await this.clipToBoundary(
+        await this.roadSource.fetchRoads({ swLat, swLng, neLat, neLng })
+      )).flatMap(road => roadAtDetailLevel(road, DETAIL_LEVELS[level]) ?? []);
+
+      // Cache the result
+      this.roadCache.set(cacheKey, roads);
+
+      return roads;
+    } catch (error) {
+      console.error('Error fetching roads:', error);
+      return [];
+    }
+  }
+
+  // Every road in the area, once the master cache is loaded
+  getRoads(): Road[] | undefined {
+    return this.masterCache ?? undefined;
+  }
+
+  getRoad(roadId: string): Road | undefined {
+    return this.roadsById.get(roadId);
+  }
+
+  // Encoded vector tile, or null when it holds no roads. Undefined while the
+  // master cache is still loading, since tiles are only cut from the full set.
+  getTile(z: number, x: number, y: number): Uint8Array | null | undefined {
+    if (!this.masterCache) return undefined;
+
+    if (!this.tileIndex) {
+      this.tileIndex = new RoadTileIndex(this.masterCache);
+    }
+    return this.tileIndex.getTile(z, x, y);
+  }
+
+  // Streets whose names match the query, best first; undefined while the
+  // master cache is still loading
+  searchStreets(query: string, limit: number): RoadSearchResult[] | undefined {
+    if (!this.masterCache) return undefined;
+
+    if (!this.nameIndex) {
+      this.nameIndex = new RoadNameIndex(Array.from(this.streets.values()));
+    }
+    return this.nameIndex.search(query, limit);
+  }
+
+  // Roads a GPS track ran along, or undefined while the master cache is loading
+  matchTrack(lines: TrackLines): { matches: TrackMatch[]; roads: Road[] } | undefined {
+    if (!this.roadIndex) return undefined;
+
+    const matches = matchTrack(lines, this.roadIndex);
+    return { matches, roads: matches.map(match => this.roadsById.get(match.roadId)!) };
+  }
+
+  // A street with its member ways, once the master cache is loaded
+  getStreet(streetId: string): { street: Street; roads: Road[] } | undefined {
+    const street = this.streets.get(streetId);
+    if (!street) return undefined;
+    return { street, roads: street.roadIds.map(id => this.roadsById.get(id)!) };
+  }
+
+  getBoundary(): Promise<Boundary> {
+    return this.boundary;
+  }
+}
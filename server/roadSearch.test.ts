@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { type Street } from "@shared/schema";
+import { RoadNameIndex, nameWords } from "./roadSearch";
+
+let nextId = 1;
+function street(name: string, roadType = "Residential", length = 0.5): Street {
+  const id = `street-${nextId++}`;
+  return { id, name, roadType, roadIds: [id], length, coordinates: [[[51.45, -0.16], [51.451, -0.161]]] };
+}
+
+const index = new RoadNameIndex([
+  street("Broomwood Road"),
+  street("Battersea Bridge Road", "Primary", 1.2),
+  street("Plough Road", "Secondary"),
+  street("Grant Road"),
+  street("Lavender Grove"),
+  street("St John's Hill", "Primary", 0.9),
+  street("Church Street"),
+  street("Northcote Road", "Secondary"),
+  street("Trinity Road", "Primary", 2),
+]);
+
+const names = (query: string, limit = 10) => index.search(query, limit).map(result => result.name);
+
+describe("nameWords", () => {
+  it("spells out abbreviations and drops punctuation", () => {
+    expect(nameWords("Lavender Gr.")).toEqual(["lavender", "grove"]);
+    expect(nameWords("St John's Hill")).toEqual(["saint", "johns", "hill"]);
+    expect(nameWords("Church St")).toEqual(["church", "street"]);
+  });
+});
+
+describe("RoadNameIndex", () => {
+  it("finds a street by its full name first", () => {
+    expect(names("Plough Road")[0]).toBe("Plough Road");
+    expect(names("plough rd")[0]).toBe("Plough Road");
+  });
+
+  it("completes the word being typed", () => {
+    expect(names("Northc")).toEqual(["Northcote Road"]);
+    expect(names("Tri")).toEqual(["Trinity Road"]);
+  });
+
+  it("completes a word that is also an abbreviation", () => {
+    expect(names("Br")).toContain("Broomwood Road");
+    expect(names("Br")).toContain("Battersea Bridge Road");
+    expect(names("Pl")).toContain("Plough Road");
+    expect(names("Gr")).toEqual(expect.arrayContaining(["Grant Road", "Lavender Grove"]));
+    expect(names("St")).toEqual(expect.arrayContaining(["St John's Hill", "Church Street"]));
+  });
+
+  it("matches the start of every word in any order", () => {
+    expect(names("bridge batt")).toEqual(["Battersea Bridge Road"]);
+    expect(names("hill st")).toEqual(["St John's Hill"]);
+  });
+
+  it("tolerates a typo in a longer word", () => {
+    expect(names("Nortcote Road")).toEqual(["Northcote Road"]);
+  });
+
+  it("puts bigger roads first among equal matches", () => {
+    expect(names("road", 3)).toEqual(["Trinity Road", "Battersea Bridge Road", "Northcote Road"]);
+  });
+
+  it("finds nothing for an empty query", () => {
+    expect(names("  ")).toEqual([]);
+  });
+});
@@ -0,0 +1,232 @@
+import { type Street, type RoadSearchResult } from "@shared/schema";
+import { roadTypeRank } from "./streets";
+
+// Common abbreviations in UK road names and the words they stand for
+const ABBREVIATIONS: Record<string, string> = {
+  rd: "road",
+  ave: "avenue",
+  av: "avenue",
+  ln: "lane",
+  dr: "drive",
+  pl: "place",
+  sq: "square",
+  cres: "crescent",
+  gdns: "gardens",
+  ct: "court",
+  tce: "terrace",
+  terr: "terrace",
+  gr: "grove",
+  pk: "park",
+  hl: "hill",
+  mt: "mount",
+  cl: "close",
+  br: "bridge",
+  emb: "embankment",
+  pde: "parade",
+};
+
+// Search scores: whole name, start of the name, the start of every word, with typos
+const EXACT_SCORE = 100;
+const PREFIX_SCORE = 80;
+const WORDS_SCORE = 60;
+const FUZZY_SCORE = 40;
+
+// Lower case words without punctuation
+function plainWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Words of a road name in a comparable form: lower case, without
+ * punctuation and with abbreviations spelt out. "St" means "Saint" when it
+ * starts a longer name ("St John's Hill") and "Street" otherwise.
+ */
+export function nameWords(name: string): string[] {
+  const words = plainWords(name);
+
+  return words.map((word, i) => {
+    if (word === "st") return i === 0 && words.length > 1 ? "saint" : "street";
+    return ABBREVIATIONS[word] ?? word;
+  });
+}
+
+// Forms each query word may take in a name: as typed, since it may be the
+// start of a longer word ("Br" for "Broomwood"), and spelt out when it's an
+// abbreviation ("Br" for "Bridge")
+function queryWordForms(query: string): string[][] {
+  return plainWords(query).map((word) => {
+    if (word === "st") return [word, "saint", "street"];
+    return ABBREVIATIONS[word] ? [word, ABBREVIATIONS[word]] : [word];
+  });
+}
+
+// Edits (insertions, deletions, substitutions) between two words, or
+// anything above `max` once it's clear the words are further apart than that
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Typos tolerated in a query word, more for longer words
+function allowedEdits(word: string): number {
+  return word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+}
+
+type Entry = {
+  street: Street;
+  words: string[];
+  phrase: string; // The words joined by spaces
+};
+
+/**
+ * Street names of an area, searchable by the start of the name, by the
+ * start of each word (in any order), or with a typo or two in longer words.
+ */
+export class RoadNameIndex {
+  private entries: Entry[];
+  private wordList: string[]; // Every distinct word, sorted for prefix lookups
+  private entriesByWord: Map<string, number[]>;
+
+  constructor(streets: Street[]) {
+    this.entries = streets.map((street) => {
+      const words = nameWords(street.name);
+      return { street, words, phrase: words.join(" ") };
+    });
+
+    this.entriesByWord = new Map();
+    this.entries.forEach((entry, i) => {
+      new Set(entry.words).forEach((word) => {
+        const list = this.entriesByWord.get(word);
+        if (list) list.push(i);
+        else this.entriesByWord.set(word, [i]);
+      });
+    });
+    this.wordList = Array.from(this.entriesByWord.keys()).sort();
+  }
+
+  // Words starting with the prefix, found by binary search in the sorted list
+  private wordsWithPrefix(prefix: string): string[] {
+    let low = 0;
+    let high = this.wordList.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.wordList[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const words: string[] = [];
+    for (let i = low; i < this.wordList.length && this.wordList[i].startsWith(prefix); i++) {
+      words.push(this.wordList[i]);
+    }
+    return words;
+  }
+
+  // Indexed words a query word could be the start of, allowing for typos,
+  // with how many edits it takes
+  private candidates(queryWord: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    this.wordsWithPrefix(queryWord).forEach(word => matches.set(word, 0));
+
+    const max = allowedEdits(queryWord);
+    if (max > 0) {
+      this.wordList.forEach((word) => {
+        if (matches.has(word)) return;
+        // Compare with starts of the word around the query's length
+        let edits = max + 1;
+        for (let length = queryWord.length - max; length <= queryWord.length + max; length++) {
+          if (length > 0 && length <= word.length) {
+            edits = Math.min(edits, editDistance(queryWord, word.slice(0, length), max));
+          }
+        }
+        if (edits <= max) matches.set(word, edits);
+      });
+    }
+    return matches;
+  }
+
+  search(query: string, limit: number): RoadSearchResult[] {
+    const queryForms = queryWordForms(query);
+    if (queryForms.length === 0) return [];
+    const queryPhrase = nameWords(query).join(" ");
+    const typedPhrase = plainWords(query).join(" ");
+
+    // Edits needed per entry, for entries matching every query word
+    let edits: Map<number, number> | null = null;
+    for (let i = 0; i < queryForms.length; i++) {
+      const wordEdits = new Map<number, number>();
+      queryForms[i].forEach((form) => {
+        this.candidates(form).forEach((distance, word) => {
+          this.entriesByWord.get(word)!.forEach((entryIndex) => {
+            const best = wordEdits.get(entryIndex);
+            if (best === undefined || distance < best) wordEdits.set(entryIndex, distance);
+          });
+        });
+      });
+
+      const next = new Map<number, number>();
+      wordEdits.forEach((distance, entryIndex) => {
+        const previous = edits === null ? 0 : edits.get(entryIndex);
+        if (previous !== undefined) next.set(entryIndex, previous + distance);
+      });
+      edits = next;
+    }
+
+    const scored = Array.from(edits ?? [], ([entryIndex, distance]) => {
+      const entry = this.entries[entryIndex];
+      const score = entry.phrase === queryPhrase ? EXACT_SCORE
+        : entry.phrase.startsWith(queryPhrase) || entry.phrase.startsWith(typedPhrase) ? PREFIX_SCORE
+        : distance === 0 ? WORDS_SCORE
+        : FUZZY_SCORE - distance;
+      return { entry, score };
+    });
+
+    // Best matches first, then bigger roads, then longer streets
+    scored.sort((a, b) =>
+      b.score - a.score ||
+      roadTypeRank(a.entry.street.roadType) - roadTypeRank(b.entry.street.roadType) ||
+      b.entry.street.length - a.entry.street.length ||
+      a.entry.street.name.localeCompare(b.entry.street.name)
+    );
+
+    return scored.slice(0, limit).map(({ entry: { street } }) => toSearchResult(street));
+  }
+}
+
+function toSearchResult(street: Street): RoadSearchResult {
+  const points = street.coordinates.flat();
+  const lats = points.map(([lat]) => lat);
+  const lngs = points.map(([, lng]) => lng);
+
+  return {
+    streetId: street.id,
+    name: street.name,
+    roadType: street.roadType,
+    length: street.length,
+    bounds: {
+      swLat: Math.min(...lats),
+      swLng: Math.min(...lngs),
+      neLat: Math.max(...lats),
+      neLng: Math.max(...lngs),
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { type Road } from "@shared/schema";
+import { config } from "./config";
+import { roadsFromOverpassElements, type Bounds } from "./osm";
+import { loadRoadsFromOsmFile } from "./osmFile";
+import { type RoadSourceSpec } from "./areas";
+
+// A provider of road geometry for a bounding box
+export interface RoadSource {
+  // Short label used in logs
+  readonly name: string;
+  // Whether fetchRoads only reads the bounds asked for, making it worth
+  // calling for a view before the whole area has loaded
+  readonly fetchesByBounds: boolean;
+  // Identifies the data fetchRoads reads (which server, file or fixture), so
+  // roads saved from anything else aren't mistaken for its own
+  cacheKey(): Promise<string>;
+  fetchRoads(bounds: Bounds): Promise<Road[]>;
+}
+
+// Live (or stand-in) Overpass API endpoint
+export class OverpassRoadSource implements RoadSource {
+  readonly name = "overpass";
+  readonly fetchesByBounds = true;
+
+  constructor(private url: string) {}
+
+  async cacheKey(): Promise<string> {
+    return `overpass ${this.url}`;
+  }
+
+  async fetchRoads({ swLat, swLng, neLat, neLng }: Bounds): Promise<Road[]> {
+    // Create Overpass API query for roads within the given bounds; callers
+    // trim the result to the area boundary themselves
+    // Formatting: south, west, north, east
+    const overpassQuery = `
+      [out:json];
+      way[highway][name](${swLat},${swLng},${neLat},${neLng});
+      out body;
+      >;
+      out skel qt;
+    `;
+
+    // Fetch road data from Overpass API
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: `data=${encodeURIComponent(overpassQuery)}`,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Overpass API returned ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    return roadsFromOverpassElements(data.elements);
+  }
+}
+
+// Local .osm / .osm.pbf extract
+export class OsmFileRoadSource implements RoadSource {
+  readonly name = "file";
+  // The whole extract is parsed for any bounds
+  readonly fetchesByBounds = false;
+
+  constructor(private filePath: string) {}
+
+  // A replaced or updated extract has a new modification time
+  async cacheKey(): Promise<string> {
+    const { mtimeMs } = await fs.promises.stat(this.filePath);
+    return `file ${path.resolve(this.filePath)} ${mtimeMs}`;
+  }
+
+  fetchRoads(bounds: Bounds): Promise<Road[]> {
+    return loadRoadsFromOsmFile(this.filePath, bounds);
+  }
+}
+
+// Fixed set of roads held in memory, filtered by bounds on request
+export class FixtureRoadSource implements RoadSource {
+  readonly name = "fixture";
+  readonly fetchesByBounds = false;
+
+  constructor(private roads: Road[]) {}
+
+  async cacheKey(): Promise<string> {
+    return `fixture ${crypto.createHash("sha1").update(JSON.stringify(this.roads)).digest("hex")}`;
+  }
+
+  // Read a fixture saved from an /api/roads response ({ roads: [...] })
+  static fromFile(filePath: string): FixtureRoadSource {
+    const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    if (!Array.isArray(data.roads)) {
+      throw new Error(`Road fixture ${filePath} has no "roads" array`);
+    }
+    return new FixtureRoadSource(data.roads);
+  }
+
+  async fetchRoads({ swLat, swLng, neLat, neLng }: Bounds): Promise<Road[]> {
+    return this.roads.filter(road =>
+      road.coordinates.some(([lat, lng]) =>
+        lat >= swLat && lat <= neLat && lng >= swLng && lng <= neLng
+      )
+    );
+  }
+}
+
+// Build a road source from an area's spec, or the one selected by ROAD_SOURCE
+export function createRoadSource(spec?: RoadSourceSpec): RoadSource {
+  switch (spec?.kind ?? config.roadSource) {
+    case "file":
+      return new OsmFileRoadSource(spec?.osmFile ?? config.osmFile);
+    case "fixture":
+      return FixtureRoadSource.fromFile(spec?.fixture ?? config.roadFixture);
+    default:
+      return new OverpassRoadSource(config.overpassUrl);
+  }
+}
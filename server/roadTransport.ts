@@ -0,0 +1,51 @@
+import { createHash } from "crypto";
+import { promisify } from "util";
+import zlib from "zlib";
+import { type Request, type Response } from "express";
+import { type Road } from "@shared/schema";
+import { COMPACT_ROADS_TYPE, compactRoad } from "@shared/polyline";
+
+const brotliCompress = promisify(zlib.brotliCompress);
+const gzip = promisify(zlib.gzip);
+
+// Smaller bodies aren't worth compressing
+const MIN_COMPRESS_BYTES = 1024;
+
+// A middling brotli quality; the top levels are far slower on a whole area's roads
+const BROTLI_QUALITY = 5;
+
+/**
+ * Send roads as `{ roads }`: plain JSON, or with encoded polyline lines when
+ * the client asks for COMPACT_ROADS_TYPE. The ETag lets a repeat request for
+ * unchanged roads get an empty 304, and bodies are compressed with brotli or
+ * gzip when the client accepts them.
+ */
+export async function sendRoads(req: Request, res: Response, roads: Road[]) {
+  const compact = req.accepts(["application/json", COMPACT_ROADS_TYPE]) === COMPACT_ROADS_TYPE;
+  const body = JSON.stringify({ roads: compact ? roads.map(compactRoad) : roads });
+
+  res.vary("Accept").vary("Accept-Encoding");
+  res.set({
+    "Content-Type": `${compact ? COMPACT_ROADS_TYPE : "application/json"}; charset=utf-8`,
+    // Weak, since the compressed and plain bodies are equivalent rather than identical
+    ETag: `W/"${createHash("sha1").update(body).digest("base64url")}"`,
+    "Cache-Control": "no-cache",
+  });
+
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+
+  const encoding = Buffer.byteLength(body) >= MIN_COMPRESS_BYTES ? req.acceptsEncodings("br", "gzip") : false;
+  if (encoding === "br") {
+    res.set("Content-Encoding", "br");
+    return res.send(await brotliCompress(body, {
+      params: { [zlib.constants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY },
+    }));
+  }
+  if (encoding === "gzip") {
+    res.set("Content-Encoding", "gzip");
+    return res.send(await gzip(body));
+  }
+  res.send(body);
+}
@@ -1,15 +1,89 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertRoadHighlightSchema } from "@shared/schema";
+import {
+  insertRoadHighlightSchema, updateRoadHighlightSchema, insertRoadCoverageSchema, insertCollectionSchema, updateCollectionSchema,
+  collectionHighlightsSchema, highlightFeatureCollectionSchema, trackGeoJsonSchema,
+  insertWorkspaceSchema, inviteMemberSchema, updateMemberSchema, insertShareSchema, roadLookupSchema,
+} from "@shared/schema";
+import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
+import { defaultAreaId, findArea } from "./areas";
+import { MAX_TILE_ZOOM } from "./vectorTiles";
+import { highlightsToGeoJson, highlightsFromGeoJson } from "./geojson";
+import { toGpx, toKml } from "@shared/routeExport";
+import { readGpxTrack, readGeoJsonTrack, type TrackLines } from "./trackFile";
+import { setupAuth, requireAuth } from "./auth";
+import { loadWorkspace, requireRole } from "./workspaces";
+import { setupLiveUpdates, notifyWorkspace, unsubscribeMember } from "./live";
+import { sendRoads } from "./roadTransport";
+
+// Highest map zoom a roads request can ask for
+const MAX_ZOOM = 22;
+
+// Road search results returned by default and at most
+const DEFAULT_SEARCH_LIMIT = 8;
+const MAX_SEARCH_LIMIT = 25;
+
+// Resolve the optional `area` query parameter, or null if it names no known area
+function resolveAreaId(value: unknown): string | null {
+  if (value === undefined || value === '') return defaultAreaId;
+  return typeof value === 'string' && findArea(value) ? value : null;
+}
+
+// A collection if it exists in the workspace; other workspaces' collections
+// are reported as missing rather than forbidden
+async function findWorkspaceCollection(id: number, workspaceId: number) {
+  const collection = await storage.getCollection(id);
+  return collection?.workspaceId === workspaceId ? collection : undefined;
+}
+
+// Resolve the optional `collection` query parameter: undefined when absent
+// (meaning every highlight), null if it names no collection in the workspace
+async function resolveCollectionId(value: unknown, workspaceId: number): Promise<number | undefined | null> {
+  if (value === undefined || value === '') return undefined;
+  const id = typeof value === 'string' ? parseInt(value) : NaN;
+  return !isNaN(id) && await findWorkspaceCollection(id, workspaceId) ? id : null;
+}
+
+// Where a request saves highlights and collections, and on whose behalf
+function ownerOf(req: Request) {
+  return { workspaceId: req.workspace!.id, userId: req.user!.id };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and the account routes. Highlights, collections and coverage live
+  // in a workspace (the `workspace` query parameter) the user must be a member
+  // of; changing them needs the editor role.
+  const sessionMiddleware = setupAuth(app);
+  app.use('/api/workspaces', requireAuth);
+  app.use('/api/highlights', requireAuth, loadWorkspace);
+  app.use('/api/collections', requireAuth, loadWorkspace);
+  app.use('/api/coverage', requireAuth, loadWorkspace);
+
+  // List the areas the client can switch between
+  app.get('/api/areas', async (req, res) => {
+    try {
+      const areas = await storage.getAreas();
+      res.json({ areas, defaultAreaId });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to fetch areas',
+        error: (error as Error).message
+      });
+    }
+  });
+
   // Get roads within a bounding box
   app.get('/api/roads', async (req, res) => {
     try {
       const { swLat, swLng, neLat, neLng } = req.query;
       
+      const areaId = resolveAreaId(req.query.area);
+      if (!areaId) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+      
       // Validate parameters
       if (!swLat || !swLng || !neLat || !neLng) {
         return res.status(400).json({ 
@@ -33,12 +107,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Optional zoom picking the level of detail; full detail without one
+      let zoom: number | undefined;
+      if (req.query.zoom !== undefined && req.query.zoom !== '') {
+        zoom = Number(req.query.zoom);
+        if (!Number.isInteger(zoom) || zoom < 0 || zoom > MAX_ZOOM) {
+          return res.status(400).json({ message: `Invalid zoom: use 0 to ${MAX_ZOOM}` });
+        }
+      }
+      
       // Get roads within bounds
       const roads = await storage.getRoadsByBounds(
-        bounds.swLat, bounds.swLng, bounds.neLat, bounds.neLng
+        bounds.swLat, bounds.swLng, bounds.neLat, bounds.neLng, areaId, zoom
       );
       
-      res.json({ roads });
+      await sendRoads(req, res, roads);
     } catch (error) {
       res.status(500).json({ 
         message: 'Failed to fetch roads',
@@ -47,8 +130,221 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Find streets by name, for the search box. Registered before /api/roads/:id,
+  // which would otherwise take "search" for a road ID.
+  app.get('/api/roads/search', async (req, res) => {
+    try {
+      const areaId = resolveAreaId(req.query.area);
+      if (!areaId) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (!query) {
+        return res.status(400).json({ message: 'Missing required parameter: q' });
+      }
+
+      const limit = req.query.limit === undefined ? DEFAULT_SEARCH_LIMIT : parseInt(req.query.limit as string);
+      if (isNaN(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+        return res.status(400).json({ message: `Invalid limit: use 1 to ${MAX_SEARCH_LIMIT}` });
+      }
+
+      const results = await storage.searchRoads(query.slice(0, 100), limit, areaId);
+      if (!results) {
+        res.set('Retry-After', '5');
+        return res.status(503).json({ message: 'Roads are still loading' });
+      }
+
+      res.json({ results });
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to search roads',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Get several roads by ID, e.g. the selection of a shared link; unknown IDs are skipped
+  app.post('/api/roads/lookup', async (req, res) => {
+    try {
+      const areaId = resolveAreaId(req.query.area);
+      if (!areaId) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+
+      const result = roadLookupSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid road lookup',
+          errors: validationError.details
+        });
+      }
+
+      const roads = await storage.getRoads(result.data.ids, areaId);
+      res.json({ roads });
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch roads',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Get a single road by its ID
+  app.get('/api/roads/:id', async (req, res) => {
+    try {
+      const areaId = resolveAreaId(req.query.area);
+      if (!areaId) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+
+      const road = await storage.getRoad(req.params.id, areaId);
+      if (!road) {
+        return res.status(404).json({ message: 'Road not found' });
+      }
+
+      res.json({ road });
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch road',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Get a Mapbox Vector Tile of the roads in an area
+  app.get('/api/tiles/:z/:x/:y.mvt', async (req, res) => {
+    try {
+      const areaId = resolveAreaId(req.query.area);
+      if (!areaId) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+
+      const z = Number(req.params.z);
+      const x = Number(req.params.x);
+      const y = Number(req.params.y);
+      if (![z, x, y].every(Number.isInteger) || z < 0 || z > MAX_TILE_ZOOM ||
+          x < 0 || y < 0 || x >= 2 ** z || y >= 2 ** z) {
+        return res.status(400).json({ message: 'Invalid tile coordinates' });
+      }
+
+      const tile = await storage.getRoadTile(z, x, y, areaId);
+      if (tile === undefined) {
+        // Tiles are cut from the master cache, which is still loading
+        res.set('Retry-After', '5');
+        return res.status(503).json({ message: 'Roads are still loading' });
+      }
+
+      res.set('Cache-Control', 'public, max-age=300');
+      if (!tile) {
+        return res.status(204).end();
+      }
+
+      res.type('application/vnd.mapbox-vector-tile').send(Buffer.from(tile));
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to build tile',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Match a GPS track (GPX, or GeoJSON sent as JSON) to the roads it followed
+  app.post('/api/tracks/match', express.text({
+    type: ['application/gpx+xml', 'application/xml', 'text/xml'],
+    limit: '10mb',
+  }), async (req, res) => {
+    try {
+      const areaId = resolveAreaId(req.query.area);
+      if (!areaId) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+
+      let lines: TrackLines;
+      if (typeof req.body === 'string') {
+        try {
+          lines = readGpxTrack(req.body);
+        } catch (error) {
+          return res.status(400).json({ 
+            message: 'Invalid GPX file',
+            error: (error as Error).message
+          });
+        }
+      } else {
+        const result = trackGeoJsonSchema.safeParse(req.body);
+        if (!result.success) {
+          const validationError = fromZodError(result.error);
+          return res.status(400).json({ 
+            message: 'Invalid GeoJSON track',
+            errors: validationError.details
+          });
+        }
+        lines = readGeoJsonTrack(result.data);
+      }
+
+      if (lines.length === 0) {
+        return res.status(400).json({ message: 'Track contains no lines with at least two points' });
+      }
+
+      const result = await storage.matchTrack(lines, areaId);
+      if (!result) {
+        res.set('Retry-After', '5');
+        return res.status(503).json({ message: 'Roads are still loading' });
+      }
+
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to match track',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Get a street with all of its member ways
+  app.get('/api/streets/:id', async (req, res) => {
+    try {
+      const areaId = resolveAreaId(req.query.area);
+      if (!areaId) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+
+      const result = await storage.getStreet(req.params.id, areaId);
+      if (!result) {
+        return res.status(404).json({ message: 'Street not found' });
+      }
+
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch street',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Get the boundary polygon of an area
+  app.get('/api/boundary', async (req, res) => {
+    try {
+      const areaId = resolveAreaId(req.query.area);
+      if (!areaId) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+
+      const boundary = await storage.getBoundary(areaId);
+      res.json({ boundary });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to fetch boundary',
+        error: (error as Error).message
+      });
+    }
+  });
+
   // Save a road highlight
-  app.post('/api/highlights', async (req, res) => {
+  app.post('/api/highlights', requireRole('editor'), async (req, res) => {
     try {
       // Validate request body
       const result = insertRoadHighlightSchema.safeParse(req.body);
@@ -61,12 +357,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      if (result.data.collectionId != null && !await findWorkspaceCollection(result.data.collectionId, req.workspace!.id)) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      
       // Save the road highlight
-      const roadHighlight = await storage.saveRoadHighlight({
+      const roadHighlight = await storage.saveRoadHighlight(ownerOf(req), {
         ...result.data,
         createdAt: new Date().toISOString()
       });
       
+      notifyWorkspace(req.workspace!.id, { type: 'highlights-saved', highlights: [roadHighlight] });
       res.status(201).json(roadHighlight);
     } catch (error) {
       res.status(500).json({ 
@@ -76,10 +377,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all road highlights
+  // Get all road highlights, or those of one collection
   app.get('/api/highlights', async (req, res) => {
     try {
-      const highlights = await storage.getRoadHighlights();
+      const collectionId = await resolveCollectionId(req.query.collection, req.workspace!.id);
+      if (collectionId === null) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      
+      const highlights = await storage.getRoadHighlights(req.workspace!.id, collectionId);
       res.json({ highlights });
     } catch (error) {
       res.status(500).json({ 
@@ -89,8 +395,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download all road highlights (or one collection's) as a GeoJSON FeatureCollection
+  app.get('/api/highlights/export.geojson', async (req, res) => {
+    try {
+      const collectionId = await resolveCollectionId(req.query.collection, req.workspace!.id);
+      if (collectionId === null) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      
+      const highlights = await storage.getRoadHighlights(req.workspace!.id, collectionId);
+      res.type('application/geo+json');
+      res.attachment('highlights.geojson');
+      res.send(JSON.stringify(highlightsToGeoJson(highlights)));
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to export road highlights',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Download all road highlights (or one collection's) as GPX tracks or KML placemarks
+  app.get('/api/highlights/export.:format(gpx|kml)', async (req, res) => {
+    try {
+      const collectionId = await resolveCollectionId(req.query.collection, req.workspace!.id);
+      if (collectionId === null) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      
+      const title = collectionId === undefined
+        ? 'Road highlights'
+        : (await storage.getCollection(collectionId))!.name;
+      const highlights = (await storage.getRoadHighlights(req.workspace!.id, collectionId)).map(highlight => ({
+        ...highlight,
+        coordinates: highlight.coordinates as [number, number][],
+      }));
+      
+      if (req.params.format === 'gpx') {
+        res.type('application/gpx+xml');
+        res.attachment('highlights.gpx');
+        res.send(toGpx(highlights, title));
+      } else {
+        res.type('application/vnd.google-earth.kml+xml');
+        res.attachment('highlights.kml');
+        res.send(toKml(highlights, title));
+      }
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to export road highlights',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Create road highlights from an uploaded GeoJSON FeatureCollection,
+  // optionally adding them to the collection named by `collection`
+  app.post('/api/highlights/import', requireRole('editor'), async (req, res) => {
+    try {
+      const collectionId = await resolveCollectionId(req.query.collection, req.workspace!.id);
+      if (collectionId === null) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      
+      const result = highlightFeatureCollectionSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid GeoJSON highlights',
+          errors: validationError.details
+        });
+      }
+      
+      const highlights = await storage.saveRoadHighlights(
+        ownerOf(req),
+        highlightsFromGeoJson(result.data).map(highlight => ({ ...highlight, collectionId }))
+      );
+      notifyWorkspace(req.workspace!.id, { type: 'highlights-saved', highlights });
+      res.status(201).json({ highlights });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to import road highlights',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Annotate a road highlight. The body names the version it was based on;
+  // if someone else has edited the highlight since, the edit is refused with
+  // 409 and the current highlight so the client can show what changed.
+  app.patch('/api/highlights/:id', requireRole('editor'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID parameter' });
+      }
+      
+      const result = updateRoadHighlightSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid road highlight data',
+          errors: validationError.details
+        });
+      }
+      
+      const existing = await storage.getRoadHighlight(id);
+      
+      if (!existing || existing.workspaceId !== req.workspace!.id) {
+        return res.status(404).json({ message: 'Road highlight not found' });
+      }
+      
+      const highlight = await storage.updateRoadHighlight(id, result.data);
+      
+      if (!highlight) {
+        const current = await storage.getRoadHighlight(id);
+        return res.status(409).json({ 
+          message: 'Road highlight was changed by someone else',
+          highlight: current
+        });
+      }
+      
+      notifyWorkspace(req.workspace!.id, { type: 'highlights-saved', highlights: [highlight] });
+      res.json({ highlight });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to update road highlight',
+        error: (error as Error).message
+      });
+    }
+  });
+
   // Delete a road highlight
-  app.delete('/api/highlights/:id', async (req, res) => {
+  app.delete('/api/highlights/:id', requireRole('editor'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -98,12 +537,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid ID parameter' });
       }
       
-      const deleted = await storage.deleteRoadHighlight(id);
+      const highlight = await storage.getRoadHighlight(id);
       
-      if (!deleted) {
+      if (!highlight || highlight.workspaceId !== req.workspace!.id) {
         return res.status(404).json({ message: 'Road highlight not found' });
       }
       
+      await storage.deleteRoadHighlight(id);
+      notifyWorkspace(req.workspace!.id, { type: 'highlight-deleted', id });
+      
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ 
@@ -113,6 +555,446 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Save a map view and selection behind a short link
+  app.post('/api/shares', requireAuth, async (req, res) => {
+    try {
+      const result = insertShareSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid share data',
+          errors: validationError.details
+        });
+      }
+      
+      if (!findArea(result.data.areaId)) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+      
+      const share = await storage.createShare(result.data);
+      res.status(201).json({ share });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to create share',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Get the view and selection behind a short link
+  app.get('/api/shares/:code', requireAuth, async (req, res) => {
+    try {
+      const share = await storage.getShare(req.params.code);
+      
+      if (!share) {
+        return res.status(404).json({ message: 'Share not found' });
+      }
+      
+      res.json({ share });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to fetch share',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // List the user's workspaces with their role in each. Everyone has at least
+  // a personal workspace, made the first time they ask.
+  app.get('/api/workspaces', async (req, res) => {
+    try {
+      let workspaces = await storage.getWorkspaces(req.user!.id);
+      
+      if (workspaces.length === 0) {
+        await storage.createWorkspace(`${req.user!.username}'s workspace`, req.user!.id);
+        workspaces = await storage.getWorkspaces(req.user!.id);
+      }
+      
+      res.json({ workspaces });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to fetch workspaces',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Create a workspace owned by the user
+  app.post('/api/workspaces', async (req, res) => {
+    try {
+      const result = insertWorkspaceSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid workspace data',
+          errors: validationError.details
+        });
+      }
+      
+      const workspace = await storage.createWorkspace(result.data.name, req.user!.id);
+      res.status(201).json({ workspace: { ...workspace, role: 'owner' } });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to create workspace',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // List a workspace's members
+  app.get('/api/workspaces/:workspaceId/members', loadWorkspace, async (req, res) => {
+    try {
+      const members = await storage.getWorkspaceMembers(req.workspace!.id);
+      res.json({ members });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to fetch workspace members',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Invite someone into the workspace by username
+  app.post('/api/workspaces/:workspaceId/members', loadWorkspace, requireRole('owner'), async (req, res) => {
+    try {
+      const result = inviteMemberSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid invitation',
+          errors: validationError.details
+        });
+      }
+      
+      const user = await storage.getUserByUsername(result.data.username);
+      
+      if (!user) {
+        return res.status(404).json({ message: 'No user with that username' });
+      }
+      
+      if (await storage.getWorkspaceRole(req.workspace!.id, user.id)) {
+        return res.status(409).json({ message: 'User is already a member' });
+      }
+      
+      await storage.setWorkspaceMember(req.workspace!.id, user.id, result.data.role);
+      const members = await storage.getWorkspaceMembers(req.workspace!.id);
+      res.status(201).json({ members });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to invite member',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Whether taking the owner role away from this member would leave the workspace without one
+  const isLastOwner = async (workspaceId: number, userId: number) => {
+    const owners = (await storage.getWorkspaceMembers(workspaceId)).filter(member => member.role === 'owner');
+    return owners.length === 1 && owners[0].userId === userId;
+  };
+
+  // Change a member's role
+  app.patch('/api/workspaces/:workspaceId/members/:userId', loadWorkspace, requireRole('owner'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: 'Invalid user ID parameter' });
+      }
+      
+      const result = updateMemberSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid member data',
+          errors: validationError.details
+        });
+      }
+      
+      if (!await storage.getWorkspaceRole(req.workspace!.id, userId)) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+      
+      if (result.data.role !== 'owner' && await isLastOwner(req.workspace!.id, userId)) {
+        return res.status(409).json({ message: 'A workspace needs at least one owner' });
+      }
+      
+      await storage.setWorkspaceMember(req.workspace!.id, userId, result.data.role);
+      const members = await storage.getWorkspaceMembers(req.workspace!.id);
+      res.json({ members });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to update member',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Remove a member; owners can remove anyone, and anyone can leave
+  app.delete('/api/workspaces/:workspaceId/members/:userId', loadWorkspace, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: 'Invalid user ID parameter' });
+      }
+      
+      if (userId !== req.user!.id && req.workspace!.role !== 'owner') {
+        return res.status(403).json({ message: 'This needs the owner role or higher in the workspace' });
+      }
+      
+      if (await isLastOwner(req.workspace!.id, userId)) {
+        return res.status(409).json({ message: 'A workspace needs at least one owner' });
+      }
+      
+      const removed = await storage.removeWorkspaceMember(req.workspace!.id, userId);
+      
+      if (!removed) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+      
+      unsubscribeMember(req.workspace!.id, userId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to remove member',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // List the highlight collections
+  app.get('/api/collections', async (req, res) => {
+    try {
+      const collections = await storage.getCollections(req.workspace!.id);
+      res.json({ collections });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to fetch collections',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Create a collection
+  app.post('/api/collections', requireRole('editor'), async (req, res) => {
+    try {
+      const result = insertCollectionSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid collection data',
+          errors: validationError.details
+        });
+      }
+      
+      const collection = await storage.createCollection(ownerOf(req), result.data);
+      notifyWorkspace(req.workspace!.id, { type: 'collections-changed' });
+      res.status(201).json({ collection });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to create collection',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Get a collection
+  app.get('/api/collections/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID parameter' });
+      }
+      
+      const collection = await findWorkspaceCollection(id, req.workspace!.id);
+      
+      if (!collection) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      
+      res.json({ collection });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to fetch collection',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Rename a collection or change its description or colour
+  app.patch('/api/collections/:id', requireRole('editor'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID parameter' });
+      }
+      
+      const result = updateCollectionSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid collection data',
+          errors: validationError.details
+        });
+      }
+      
+      if (!await findWorkspaceCollection(id, req.workspace!.id)) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      
+      const collection = await storage.updateCollection(id, result.data);
+      notifyWorkspace(req.workspace!.id, { type: 'collections-changed' });
+      
+      res.json({ collection });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to update collection',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Delete a collection together with its highlights
+  app.delete('/api/collections/:id', requireRole('editor'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID parameter' });
+      }
+      
+      if (!await findWorkspaceCollection(id, req.workspace!.id)) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      
+      await storage.deleteCollection(id);
+      notifyWorkspace(req.workspace!.id, { type: 'collections-changed' });
+      
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to delete collection',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Replace a collection's highlights with the given set, keeping the ones
+  // that are still in it (so their IDs and creation dates survive)
+  app.put('/api/collections/:id/highlights', requireRole('editor'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID parameter' });
+      }
+      
+      const result = collectionHighlightsSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid road highlight data',
+          errors: validationError.details
+        });
+      }
+      
+      if (!await findWorkspaceCollection(id, req.workspace!.id)) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+      
+      const highlights = await storage.replaceCollectionHighlights(ownerOf(req), id, result.data.highlights);
+      notifyWorkspace(req.workspace!.id, { type: 'collections-changed' });
+      res.json({ highlights });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to save collection highlights',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Get the coverage records of an area with the overall challenge progress
+  app.get('/api/coverage', async (req, res) => {
+    try {
+      const areaId = resolveAreaId(req.query.area);
+      if (!areaId) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+
+      const coverage = await storage.getRoadCoverage(req.workspace!.id, areaId);
+      // Progress is null until the area's roads have loaded
+      const progress = (await storage.getCoverageProgress(req.workspace!.id, areaId)) ?? null;
+      res.json({ coverage, progress });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to fetch coverage',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Record roads as fully or partly covered by the logged-in user, replacing earlier records
+  app.post('/api/coverage', requireRole('editor'), async (req, res) => {
+    try {
+      const areaId = resolveAreaId(req.query.area);
+      if (!areaId) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+
+      const result = z.object({ records: z.array(insertRoadCoverageSchema).min(1) }).safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ 
+          message: 'Invalid coverage data',
+          errors: validationError.details
+        });
+      }
+
+      const coverage = await storage.saveRoadCoverage(req.workspace!.id, areaId, req.user!.username, result.data.records);
+      res.status(201).json({ coverage });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to save coverage',
+        error: (error as Error).message
+      });
+    }
+  });
+
+  // Forget the coverage of a road
+  app.delete('/api/coverage/:roadId', requireRole('editor'), async (req, res) => {
+    try {
+      const areaId = resolveAreaId(req.query.area);
+      if (!areaId) {
+        return res.status(404).json({ message: 'Unknown area' });
+      }
+
+      const deleted = await storage.deleteRoadCoverage(req.workspace!.id, areaId, req.params.roadId);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: 'Coverage record not found' });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to delete coverage',
+        error: (error as Error).message
+      });
+    }
+  });
+
   const httpServer = createServer(app);
+  setupLiveUpdates(httpServer, sessionMiddleware);
   return httpServer;
 }
@@ -0,0 +1,66 @@
+import Flatbush from "flatbush";
+import { type Road } from "@shared/schema";
+import { type Bounds } from "./osm";
+
+// Consecutive segments of a road grouped under one bounding box. Smaller
+// runs give tighter boxes; larger runs keep the index small for big datasets.
+const SEGMENTS_PER_BOX = 8;
+
+/**
+ * Static R-tree over road geometry, built once per master cache load.
+ * Each road contributes one box per run of segments, so a road matches a
+ * query when any part of its line may cross the requested bounds.
+ */
+export class RoadIndex {
+  private index: Flatbush | null;
+  private boxRoads: Uint32Array; // Road position for each box in the index
+
+  constructor(private roads: Road[]) {
+    const boxes: [number, number, number, number, number][] = [];
+
+    roads.forEach((road, roadIndex) => {
+      const { coordinates } = road;
+      for (let start = 0; start < coordinates.length; start += SEGMENTS_PER_BOX) {
+        // Include the next run's first point so every segment is covered
+        const end = Math.min(start + SEGMENTS_PER_BOX, coordinates.length - 1);
+        let minLat = Infinity, minLng = Infinity, maxLat = -Infinity, maxLng = -Infinity;
+        for (let i = start; i <= end; i++) {
+          const [lat, lng] = coordinates[i];
+          if (lat < minLat) minLat = lat;
+          if (lat > maxLat) maxLat = lat;
+          if (lng < minLng) minLng = lng;
+          if (lng > maxLng) maxLng = lng;
+        }
+        boxes.push([minLng, minLat, maxLng, maxLat, roadIndex]);
+        if (end === coordinates.length - 1) break;
+      }
+    });
+
+    this.boxRoads = new Uint32Array(boxes.length);
+    this.index = boxes.length > 0 ? new Flatbush(boxes.length) : null;
+
+    boxes.forEach(([minX, minY, maxX, maxY, roadIndex], i) => {
+      this.index!.add(minX, minY, maxX, maxY);
+      this.boxRoads[i] = roadIndex;
+    });
+    this.index?.finish();
+  }
+
+  get size(): number {
+    return this.roads.length;
+  }
+
+  // Roads whose geometry may intersect the bounds, in master cache order
+  search({ swLat, swLng, neLat, neLng }: Bounds): Road[] {
+    if (!this.index) return [];
+
+    const matches = new Set<number>();
+    this.index.search(swLng, swLat, neLng, neLat).forEach((box) => {
+      matches.add(this.boxRoads[box]);
+    });
+
+    return Array.from(matches)
+      .sort((a, b) => a - b)
+      .map((roadIndex) => this.roads[roadIndex]);
+  }
+}
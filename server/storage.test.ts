@@ -0,0 +1,94 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { type InsertRoadHighlight } from "@shared/schema";
+import { DatabaseStorage, type Owner } from "./storage";
+import { FixtureRoadSource } from "./roadSources";
+
+const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations");
+
+const highlight = (osmId: string): InsertRoadHighlight => ({
+  osmId,
+  name: `Road ${osmId}`,
+  roadType: "Residential",
+  length: 0.25,
+  coordinates: [[51.45, -0.16], [51.451, -0.161]],
+});
+
+// DatabaseStorage on an embedded Postgres kept in dataDir, migrated to the
+// current schema
+async function openStorage(dataDir: string) {
+  const client = new PGlite(dataDir);
+  const db = drizzle(client, { schema });
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+  return { client, storage: new DatabaseStorage(db, () => new FixtureRoadSource([])) };
+}
+
+describe("DatabaseStorage highlights", () => {
+  let dataDir: string;
+  let client: PGlite;
+  let storage: DatabaseStorage;
+  let owner: Owner;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-test-"));
+    ({ client, storage } = await openStorage(dataDir));
+
+    const user = await storage.createUser({ username: "alex", password: "hashed" });
+    const workspace = await storage.createWorkspace("Home", user.id);
+    owner = { workspaceId: workspace.id, userId: user.id };
+  });
+
+  afterEach(async () => {
+    await client.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("saves a highlight and reads it back", async () => {
+    const saved = await storage.saveRoadHighlight(owner, highlight("way/1"));
+
+    expect(saved).toMatchObject({ ...highlight("way/1"), ...owner, notes: "", status: "planned", version: 1 });
+    expect(await storage.getRoadHighlight(saved.id)).toEqual(saved);
+    expect(await storage.getRoadHighlights(owner.workspaceId)).toEqual([saved]);
+  });
+
+  it("saves a batch and keeps workspaces apart", async () => {
+    const saved = await storage.saveRoadHighlights(owner, [highlight("way/1"), highlight("way/2")]);
+    const other = await storage.createWorkspace("Other", owner.userId);
+    await storage.saveRoadHighlight({ ...owner, workspaceId: other.id }, highlight("way/3"));
+
+    expect((await storage.getRoadHighlights(owner.workspaceId)).map(h => h.osmId)).toEqual(["way/1", "way/2"]);
+    expect((await storage.getRoadHighlights(other.id)).map(h => h.osmId)).toEqual(["way/3"]);
+    expect(saved.map(h => h.workspaceId)).toEqual([owner.workspaceId, owner.workspaceId]);
+  });
+
+  it("deletes a highlight", async () => {
+    const saved = await storage.saveRoadHighlight(owner, highlight("way/1"));
+
+    expect(await storage.deleteRoadHighlight(saved.id)).toBe(true);
+    expect(await storage.getRoadHighlight(saved.id)).toBeUndefined();
+    expect(await storage.getRoadHighlights(owner.workspaceId)).toEqual([]);
+    expect(await storage.deleteRoadHighlight(saved.id)).toBe(false);
+  });
+
+  it("refuses an update based on an old version", async () => {
+    const saved = await storage.saveRoadHighlight(owner, highlight("way/1"));
+
+    const updated = await storage.updateRoadHighlight(saved.id, { version: 1, status: "done" });
+    expect(updated).toMatchObject({ status: "done", version: 2 });
+    expect(await storage.updateRoadHighlight(saved.id, { version: 1, notes: "stale" })).toBeUndefined();
+  });
+
+  it("keeps highlights across a restart", async () => {
+    const saved = await storage.saveRoadHighlight(owner, highlight("way/1"));
+    await client.close();
+
+    ({ client, storage } = await openStorage(dataDir));
+    expect(await storage.getRoadHighlights(owner.workspaceId)).toEqual([saved]);
+  });
+});
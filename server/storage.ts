@@ -1,177 +1,208 @@
-import { roadHighlights, type RoadHighlight, type InsertRoadHighlight, type Road } from "@shared/schema";
+import { randomInt } from "crypto";
+import { eq, and, sql, inArray } from "drizzle-orm";
+import {
+  users, workspaces, workspaceMembers, roadHighlights, roadCoverage, collections, shares,
+  type User, type InsertUser, type Workspace, type WorkspaceRole, type MemberWorkspace, type WorkspaceMember,
+  type RoadHighlight, type InsertRoadHighlight, type Road, type Street,
+  type Boundary, type Area, type TrackMatch, type RoadCoverage, type InsertRoadCoverage, type CoverageProgress,
+  type Collection, type InsertCollection, type UpdateCollection, type CollectionHighlight, type UpdateRoadHighlight,
+  type Share, type InsertShare, type RoadSearchResult,
+} from "@shared/schema";
+import { db, type Database } from "./db";
+import { createRoadSource, type RoadSource } from "./roadSources";
+import { RoadCatalog } from "./roadCatalog";
+import { type TrackLines } from "./trackFile";
+import { coverageProgress } from "./coverage";
+import { areas, defaultAreaId, findArea, toPublicArea, type AreaConfig } from "./areas";
+
+// Workspace a highlight or collection is saved into, and who saved it
+export type Owner = {
+  workspaceId: number;
+  userId: number;
+};
+
+const SHARE_CODE_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+// Random short link code; 10 base62 characters make collisions vanishingly unlikely
+function shareCode(): string {
+  return Array.from({ length: 10 }, () => SHARE_CODE_ALPHABET[randomInt(SHARE_CODE_ALPHABET.length)]).join("");
+}
 
 // Interface for storage operations
 export interface IStorage {
-  saveRoadHighlight(highlight: InsertRoadHighlight): Promise<RoadHighlight>;
-  getRoadHighlights(): Promise<RoadHighlight[]>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  createWorkspace(name: string, ownerId: number): Promise<Workspace>;
+  getWorkspaces(userId: number): Promise<MemberWorkspace[]>;
+  getWorkspaceRole(workspaceId: number, userId: number): Promise<WorkspaceRole | undefined>;
+  getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]>;
+  setWorkspaceMember(workspaceId: number, userId: number, role: WorkspaceRole): Promise<void>;
+  removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean>;
+  saveRoadHighlight(owner: Owner, highlight: InsertRoadHighlight): Promise<RoadHighlight>;
+  saveRoadHighlights(owner: Owner, highlights: InsertRoadHighlight[]): Promise<RoadHighlight[]>;
+  getRoadHighlights(workspaceId: number, collectionId?: number): Promise<RoadHighlight[]>;
   getRoadHighlight(id: number): Promise<RoadHighlight | undefined>;
+  updateRoadHighlight(id: number, update: UpdateRoadHighlight): Promise<RoadHighlight | undefined>;
   deleteRoadHighlight(id: number): Promise<boolean>;
-  getRoadsByBounds(swLat: number, swLng: number, neLat: number, neLng: number): Promise<Road[]>;
+  replaceCollectionHighlights(owner: Owner, collectionId: number, highlights: CollectionHighlight[]): Promise<RoadHighlight[]>;
+  getCollections(workspaceId: number): Promise<Collection[]>;
+  getCollection(id: number): Promise<Collection | undefined>;
+  createCollection(owner: Owner, collection: InsertCollection): Promise<Collection>;
+  updateCollection(id: number, changes: UpdateCollection): Promise<Collection | undefined>;
+  deleteCollection(id: number): Promise<boolean>;
+  getRoadCoverage(workspaceId: number, areaId: string): Promise<RoadCoverage[]>;
+  saveRoadCoverage(workspaceId: number, areaId: string, completedBy: string, records: InsertRoadCoverage[]): Promise<RoadCoverage[]>;
+  deleteRoadCoverage(workspaceId: number, areaId: string, roadId: string): Promise<boolean>;
+  getCoverageProgress(workspaceId: number, areaId: string): Promise<CoverageProgress | undefined>;
+  createShare(share: InsertShare): Promise<Share>;
+  getShare(code: string): Promise<Share | undefined>;
+  getRoadsByBounds(swLat: number, swLng: number, neLat: number, neLng: number, areaId?: string, zoom?: number): Promise<Road[]>;
+  getRoad(roadId: string, areaId?: string): Promise<Road | undefined>;
+  getRoads(roadIds: string[], areaId?: string): Promise<Road[]>;
+  searchRoads(query: string, limit: number, areaId?: string): Promise<RoadSearchResult[] | undefined>;
+  getRoadTile(z: number, x: number, y: number, areaId?: string): Promise<Uint8Array | null | undefined>;
+  matchTrack(lines: TrackLines, areaId?: string): Promise<{ matches: TrackMatch[]; roads: Road[] } | undefined>;
+  getStreet(streetId: string, areaId?: string): Promise<{ street: Street; roads: Road[] } | undefined>;
+  getBoundary(areaId?: string): Promise<Boundary>;
+  getAreas(): Promise<Area[]>;
 }
 
-// Calculate the distance between two points in kilometers
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Radius of the earth in km
-  const dLat = deg2rad(lat2 - lat1);
-  const dLon = deg2rad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
+// How to turn a collection's current highlights into the requested set:
+// entries keep an existing highlight by ID, or failing that by OSM ID, and
+// everything else is added. Existing highlights nobody kept are removed.
+function planHighlightReplacement(existing: RoadHighlight[], requested: CollectionHighlight[], collectionId: number) {
+  const unclaimed = new Map(existing.map(highlight => [highlight.id, highlight]));
+  const kept: RoadHighlight[] = [];
+  const added: InsertRoadHighlight[] = [];
 
-function deg2rad(deg: number): number {
-  return deg * (Math.PI / 180);
-}
+  requested.forEach(({ id, ...highlight }) => {
+    const match = (id !== undefined ? unclaimed.get(id) : undefined)
+      ?? (highlight.osmId ? Array.from(unclaimed.values()).find(h => h.osmId === highlight.osmId) : undefined);
 
-// Calculate the length of a road based on its coordinates
-function calculateRoadLength(coordinates: [number, number][]): number {
-  let length = 0;
-  for (let i = 0; i < coordinates.length - 1; i++) {
-    const [lat1, lon1] = coordinates[i];
-    const [lat2, lon2] = coordinates[i + 1];
-    length += calculateDistance(lat1, lon1, lat2, lon2);
-  }
-  return length;
+    if (match) {
+      unclaimed.delete(match.id);
+      kept.push(match);
+    } else {
+      added.push({ ...highlight, collectionId });
+    }
+  });
+
+  return { kept, added, removedIds: Array.from(unclaimed.keys()) };
 }
 
-// In-memory storage implementation with Overpass API integration
+// In-memory storage implementation; road geometry for each area comes from
+// the RoadSource the injected factory builds for it
 export class MemStorage implements IStorage {
+  private users: Map<number, User>;
+  private currentUserId: number;
+  private workspaces: Map<number, Workspace>;
+  private currentWorkspaceId: number;
+  private members: Map<string, WorkspaceRole>; // Roles by "workspaceId:userId"
   private highlights: Map<number, RoadHighlight>;
   private currentId: number;
-  private roadCache: Map<string, Road[]>; // Cache roads by bounding box to avoid redundant API calls
-  private masterCache: Road[] | null; // Master cache for all Wandsworth roads
-  private cacheTimestamp: number; // Timestamp of when the cache was last updated
-  private isCacheLoading: boolean; // Flag to track if the cache is currently loading
+  private collections: Map<number, Collection>;
+  private currentCollectionId: number;
+  private coverage: Map<string, RoadCoverage>; // Coverage records by "workspaceId:areaId:roadId"
+  private currentCoverageId: number;
+  private shares: Map<string, Share>;
+  private catalogs: Map<string, RoadCatalog>; // Road catalogs by area id, created on first use
 
-  constructor() {
+  constructor(private createSource: (area: AreaConfig) => RoadSource) {
+    this.users = new Map();
+    this.currentUserId = 1;
+    this.workspaces = new Map();
+    this.currentWorkspaceId = 1;
+    this.members = new Map();
     this.highlights = new Map();
     this.currentId = 1;
-    this.roadCache = new Map();
-    this.masterCache = null;
-    this.cacheTimestamp = 0;
-    this.isCacheLoading = false;
+    this.collections = new Map();
+    this.currentCollectionId = 1;
+    this.coverage = new Map();
+    this.currentCoverageId = 1;
+    this.shares = new Map();
+    this.catalogs = new Map();
     
-    // Preload the master cache on startup
-    this.preloadMasterCache();
-  }
-  
-  private async fetchRoadsFromAPI(swLat: number, swLng: number, neLat: number, neLng: number): Promise<Road[]> {
-    // Create Overpass API query for roads in Wandsworth within the given bounds
-    // Formatting: south, west, north, east
-    const overpassQuery = `
-      [out:json];
-      (
-        // First, fetch roads within the bounding box
-        way[highway][name](${swLat},${swLng},${neLat},${neLng});
-        
-        // Alternative approach: Get roads in Wandsworth area
-        // This is a simplified version; in real Overpass QL we'd use area filter
-        way[highway][name](around:1500,51.4571,-0.1927);
-      );
-      out body;
-      >;
-      out skel qt;
-    `;
-    
-    // Fetch road data from Overpass API
-    const response = await fetch('https://overpass-api.de/api/interpreter', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: `data=${encodeURIComponent(overpassQuery)}`,
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Overpass API returned ${response.status}: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    
-    // Prepare a map of node ID to [lat, lon]
-    const nodes = new Map<number, [number, number]>();
-    data.elements.forEach((element: any) => {
-      if (element.type === 'node') {
-        nodes.set(element.id, [element.lat, element.lon]);
+    // Preload the default area's roads on startup
+    this.catalog(defaultAreaId);
+  }
+
+  private catalog(areaId: string): RoadCatalog {
+    let catalog = this.catalogs.get(areaId);
+    if (!catalog) {
+      const area = findArea(areaId);
+      if (!area) {
+        throw new Error(`Unknown area "${areaId}"`);
       }
+      catalog = new RoadCatalog(area, this.createSource(area));
+      this.catalogs.set(areaId, catalog);
+    }
+    return catalog;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const saved: User = { ...user, id: this.currentUserId++, createdAt: new Date().toISOString() };
+    this.users.set(saved.id, saved);
+    return saved;
+  }
+
+  async createWorkspace(name: string, ownerId: number): Promise<Workspace> {
+    const workspace: Workspace = { id: this.currentWorkspaceId++, name, createdAt: new Date().toISOString() };
+    this.workspaces.set(workspace.id, workspace);
+    this.members.set(`${workspace.id}:${ownerId}`, "owner");
+    return workspace;
+  }
+
+  async getWorkspaces(userId: number): Promise<MemberWorkspace[]> {
+    return Array.from(this.workspaces.values()).flatMap((workspace) => {
+      const role = this.members.get(`${workspace.id}:${userId}`);
+      return role ? [{ ...workspace, role }] : [];
     });
-    
-    // Process ways (roads)
-    const roads: Road[] = [];
-    data.elements.forEach((element: any) => {
-      if (element.type === 'way' && element.tags && element.tags.highway) {
-        const coordinates: [number, number][] = [];
-        
-        // Get coordinates for each node in the way
-        element.nodes.forEach((nodeId: number) => {
-          const nodeCoords = nodes.get(nodeId);
-          if (nodeCoords) {
-            coordinates.push(nodeCoords);
-          }
-        });
-        
-        if (coordinates.length > 0) {
-          const roadType = getRoadType(element.tags.highway);
-          const name = element.tags.name || 'Unnamed Road';
-          
-          // Calculate road length using the Haversine formula
-          const length = calculateRoadLength(coordinates);
-          
-          roads.push({
-            id: `road-${element.id}`,
-            osmId: `way/${element.id}`,
-            name,
-            roadType,
-            length,
-            coordinates,
-          });
-        }
-      }
+  }
+
+  async getWorkspaceRole(workspaceId: number, userId: number): Promise<WorkspaceRole | undefined> {
+    return this.members.get(`${workspaceId}:${userId}`);
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]> {
+    return Array.from(this.members.entries()).flatMap(([key, role]) => {
+      const [memberWorkspaceId, userId] = key.split(":").map(Number);
+      const user = this.users.get(userId);
+      return memberWorkspaceId === workspaceId && user ? [{ userId, username: user.username, role }] : [];
     });
-    
-    return roads;
   }
-  
-  private async preloadMasterCache() {
-    if (this.isCacheLoading) return;
-    
-    this.isCacheLoading = true;
-    try {
-      console.log('Preloading master cache of all Wandsworth roads...');
-      // Wandsworth full bounds
-      const bounds = {
-        swLat: 51.4137, 
-        swLng: -0.3020, 
-        neLat: 51.5005, 
-        neLng: -0.0834
-      };
-      
-      const roads = await this.fetchRoadsFromAPI(
-        bounds.swLat, 
-        bounds.swLng, 
-        bounds.neLat, 
-        bounds.neLng
-      );
-      
-      this.masterCache = roads;
-      this.cacheTimestamp = Date.now();
-      console.log(`Master cache loaded with ${roads.length} roads`);
-    } catch (error) {
-      console.error('Error preloading master cache:', error);
-    } finally {
-      this.isCacheLoading = false;
-    }
+
+  // Adds the user, or changes their role if they are already a member
+  async setWorkspaceMember(workspaceId: number, userId: number, role: WorkspaceRole): Promise<void> {
+    this.members.set(`${workspaceId}:${userId}`, role);
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean> {
+    return this.members.delete(`${workspaceId}:${userId}`);
   }
 
-  async saveRoadHighlight(highlight: InsertRoadHighlight): Promise<RoadHighlight> {
+  async saveRoadHighlight({ workspaceId, userId }: Owner, highlight: InsertRoadHighlight): Promise<RoadHighlight> {
     const id = this.currentId++;
     const createdAt = new Date().toISOString();
     
     const roadHighlight: RoadHighlight = {
       ...highlight,
+      workspaceId,
+      userId,
+      collectionId: highlight.collectionId ?? null,
+      notes: highlight.notes ?? "",
+      status: highlight.status ?? "planned",
+      color: highlight.color ?? null,
+      tags: highlight.tags ?? [],
+      version: 1,
       id,
       createdAt
     };
@@ -180,84 +211,431 @@ export class MemStorage implements IStorage {
     return roadHighlight;
   }
 
-  async getRoadHighlights(): Promise<RoadHighlight[]> {
-    return Array.from(this.highlights.values());
+  async saveRoadHighlights(owner: Owner, highlights: InsertRoadHighlight[]): Promise<RoadHighlight[]> {
+    return Promise.all(highlights.map(highlight => this.saveRoadHighlight(owner, highlight)));
+  }
+
+  async getRoadHighlights(workspaceId: number, collectionId?: number): Promise<RoadHighlight[]> {
+    return Array.from(this.highlights.values()).filter(highlight =>
+      highlight.workspaceId === workspaceId && (collectionId === undefined || highlight.collectionId === collectionId)
+    );
   }
 
   async getRoadHighlight(id: number): Promise<RoadHighlight | undefined> {
     return this.highlights.get(id);
   }
 
+  // Undefined if the highlight doesn't exist or has moved past the given version
+  async updateRoadHighlight(id: number, { version, ...changes }: UpdateRoadHighlight): Promise<RoadHighlight | undefined> {
+    const highlight = this.highlights.get(id);
+    if (!highlight || highlight.version !== version) return undefined;
+
+    const updated = { ...highlight, ...changes, version: version + 1 };
+    this.highlights.set(id, updated);
+    return updated;
+  }
+
   async deleteRoadHighlight(id: number): Promise<boolean> {
     return this.highlights.delete(id);
   }
 
-  async getRoadsByBounds(swLat: number, swLng: number, neLat: number, neLng: number): Promise<Road[]> {
-    // Create a cache key for this bounding box (rounded to 4 decimal places for better cache hits)
-    const cacheKey = `${swLat.toFixed(4)},${swLng.toFixed(4)},${neLat.toFixed(4)},${neLng.toFixed(4)}`;
-    
-    // First, check if we already have this specific area cached
-    if (this.roadCache.has(cacheKey)) {
-      return this.roadCache.get(cacheKey) || [];
-    }
-    
-    // Next, if we have the master cache, use that instead of making an API call
-    if (this.masterCache) {
-      console.log('Using master cache to filter roads for the requested area...');
-      
-      // Filter roads from master cache that are within the requested bounds
-      const filteredRoads = this.masterCache.filter(road => {
-        // Check if any part of the road is within the requested bounds
-        return road.coordinates.some(coord => {
-          const [lat, lng] = coord;
-          return lat >= swLat && lat <= neLat && lng >= swLng && lng <= neLng;
-        });
-      });
-      
-      // Cache the filtered result for this specific area
-      this.roadCache.set(cacheKey, filteredRoads);
-      
-      return filteredRoads;
-    }
-    
-    // If neither cache is available, fetch from API
-    try {
-      const roads = await this.fetchRoadsFromAPI(swLat, swLng, neLat, neLng);
-      
-      // Cache the result
-      this.roadCache.set(cacheKey, roads);
-      
-      return roads;
-    } catch (error) {
-      console.error('Error fetching roads from Overpass API:', error);
-      return [];
-    }
+  async replaceCollectionHighlights(owner: Owner, collectionId: number, highlights: CollectionHighlight[]): Promise<RoadHighlight[]> {
+    const { kept, added, removedIds } = planHighlightReplacement(
+      await this.getRoadHighlights(owner.workspaceId, collectionId), highlights, collectionId
+    );
+    removedIds.forEach(id => this.highlights.delete(id));
+    return [...kept, ...await this.saveRoadHighlights(owner, added)];
+  }
+
+  async getCollections(workspaceId: number): Promise<Collection[]> {
+    return Array.from(this.collections.values()).filter(collection => collection.workspaceId === workspaceId);
+  }
+
+  async getCollection(id: number): Promise<Collection | undefined> {
+    return this.collections.get(id);
+  }
+
+  async createCollection({ workspaceId, userId }: Owner, collection: InsertCollection): Promise<Collection> {
+    const saved: Collection = {
+      ...collection,
+      workspaceId,
+      userId,
+      description: collection.description ?? "",
+      id: this.currentCollectionId++,
+      createdAt: new Date().toISOString(),
+    };
+    this.collections.set(saved.id, saved);
+    return saved;
+  }
+
+  async updateCollection(id: number, changes: UpdateCollection): Promise<Collection | undefined> {
+    const collection = this.collections.get(id);
+    if (!collection) return undefined;
+
+    const updated = { ...collection, ...changes };
+    this.collections.set(id, updated);
+    return updated;
+  }
+
+  // A collection's highlights go with it
+  async deleteCollection(id: number): Promise<boolean> {
+    if (!this.collections.delete(id)) return false;
+    Array.from(this.highlights.values())
+      .filter(highlight => highlight.collectionId === id)
+      .forEach(highlight => this.highlights.delete(highlight.id));
+    return true;
+  }
+
+  async getRoadCoverage(workspaceId: number, areaId: string): Promise<RoadCoverage[]> {
+    return Array.from(this.coverage.values()).filter(record =>
+      record.workspaceId === workspaceId && record.areaId === areaId
+    );
+  }
+
+  // Recording a road again replaces its previous record
+  async saveRoadCoverage(
+    workspaceId: number, areaId: string, completedBy: string, records: InsertRoadCoverage[]
+  ): Promise<RoadCoverage[]> {
+    return records.map((record) => {
+      const key = `${workspaceId}:${areaId}:${record.roadId}`;
+      const saved: RoadCoverage = {
+        ...record,
+        id: this.coverage.get(key)?.id ?? this.currentCoverageId++,
+        workspaceId,
+        areaId,
+        completedBy,
+      };
+      this.coverage.set(key, saved);
+      return saved;
+    });
+  }
+
+  async deleteRoadCoverage(workspaceId: number, areaId: string, roadId: string): Promise<boolean> {
+    return this.coverage.delete(`${workspaceId}:${areaId}:${roadId}`);
+  }
+
+  async createShare(share: InsertShare): Promise<Share> {
+    const saved: Share = { ...share, code: shareCode(), createdAt: new Date().toISOString() };
+    this.shares.set(saved.code, saved);
+    return saved;
+  }
+
+  async getShare(code: string): Promise<Share | undefined> {
+    return this.shares.get(code);
+  }
+
+  // Undefined while the area's roads are still loading
+  async getCoverageProgress(workspaceId: number, areaId: string): Promise<CoverageProgress | undefined> {
+    const roads = this.catalog(areaId).getRoads();
+    if (!roads) return undefined;
+    return coverageProgress(roads, await this.getRoadCoverage(workspaceId, areaId));
+  }
+
+  async getRoadsByBounds(
+    swLat: number, swLng: number, neLat: number, neLng: number, areaId = defaultAreaId, zoom?: number
+  ): Promise<Road[]> {
+    return this.catalog(areaId).getRoadsByBounds({ swLat, swLng, neLat, neLng }, zoom);
+  }
+
+  async getRoad(roadId: string, areaId = defaultAreaId): Promise<Road | undefined> {
+    return this.catalog(areaId).getRoad(roadId);
+  }
+
+  // The roads that exist among the given IDs, in the same order
+  async getRoads(roadIds: string[], areaId = defaultAreaId): Promise<Road[]> {
+    const catalog = this.catalog(areaId);
+    return roadIds.map(id => catalog.getRoad(id)).filter((road): road is Road => road !== undefined);
+  }
+
+  async searchRoads(query: string, limit: number, areaId = defaultAreaId): Promise<RoadSearchResult[] | undefined> {
+    return this.catalog(areaId).searchStreets(query, limit);
+  }
+
+  async getRoadTile(z: number, x: number, y: number, areaId = defaultAreaId): Promise<Uint8Array | null | undefined> {
+    return this.catalog(areaId).getTile(z, x, y);
+  }
+
+  async matchTrack(lines: TrackLines, areaId = defaultAreaId): Promise<{ matches: TrackMatch[]; roads: Road[] } | undefined> {
+    return this.catalog(areaId).matchTrack(lines);
+  }
+
+  async getStreet(streetId: string, areaId = defaultAreaId): Promise<{ street: Street; roads: Road[] } | undefined> {
+    return this.catalog(areaId).getStreet(streetId);
+  }
+
+  async getBoundary(areaId = defaultAreaId): Promise<Boundary> {
+    return this.catalog(areaId).getBoundary();
+  }
+
+  async getAreas(): Promise<Area[]> {
+    return areas.map(toPublicArea);
   }
 }
 
-// Helper function to map OSM highway types to more user-friendly categories
-function getRoadType(highwayType: string): string {
-  switch (highwayType) {
-    case 'motorway':
-    case 'trunk':
-      return 'Motorway';
-    case 'primary':
-      return 'Primary';
-    case 'secondary':
-      return 'Secondary';
-    case 'tertiary':
-      return 'Tertiary';
-    case 'residential':
-      return 'Residential';
-    case 'service':
-      return 'Service';
-    case 'footway':
-    case 'path':
-    case 'cycleway':
-      return 'Path';
-    default:
-      return 'Other';
+// Postgres-backed storage for accounts, workspaces, highlights, collections and coverage;
+// roads are still served from the in-memory road catalogs inherited from MemStorage
+export class DatabaseStorage extends MemStorage {
+  constructor(private db: Database, createSource: (area: AreaConfig) => RoadSource) {
+    super(createSource);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [saved] = await this.db
+      .insert(users)
+      .values({ ...user, createdAt: new Date().toISOString() })
+      .returning();
+    return saved;
+  }
+
+  async createWorkspace(name: string, ownerId: number): Promise<Workspace> {
+    return this.db.transaction(async (tx) => {
+      const [workspace] = await tx
+        .insert(workspaces)
+        .values({ name, createdAt: new Date().toISOString() })
+        .returning();
+      await tx.insert(workspaceMembers).values({ workspaceId: workspace.id, userId: ownerId, role: "owner" });
+      return workspace;
+    });
+  }
+
+  async getWorkspaces(userId: number): Promise<MemberWorkspace[]> {
+    return this.db
+      .select({
+        id: workspaces.id,
+        name: workspaces.name,
+        createdAt: workspaces.createdAt,
+        role: workspaceMembers.role,
+      })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(workspaces.id);
+  }
+
+  async getWorkspaceRole(workspaceId: number, userId: number): Promise<WorkspaceRole | undefined> {
+    const [member] = await this.db
+      .select({ role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member?.role;
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]> {
+    return this.db
+      .select({ userId: users.id, username: users.username, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(users.id, workspaceMembers.userId))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(users.username);
+  }
+
+  async setWorkspaceMember(workspaceId: number, userId: number, role: WorkspaceRole): Promise<void> {
+    await this.db
+      .insert(workspaceMembers)
+      .values({ workspaceId, userId, role })
+      .onConflictDoUpdate({
+        target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+        set: { role },
+      });
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning({ id: workspaceMembers.id });
+    return deleted.length > 0;
+  }
+
+  async saveRoadHighlight({ workspaceId, userId }: Owner, highlight: InsertRoadHighlight): Promise<RoadHighlight> {
+    const [roadHighlight] = await this.db
+      .insert(roadHighlights)
+      .values({ ...highlight, workspaceId, userId, createdAt: new Date().toISOString() })
+      .returning();
+    return roadHighlight;
+  }
+
+  // Saved in one statement, so an import either fully succeeds or adds nothing
+  async saveRoadHighlights({ workspaceId, userId }: Owner, highlights: InsertRoadHighlight[]): Promise<RoadHighlight[]> {
+    if (highlights.length === 0) return [];
+    const createdAt = new Date().toISOString();
+    return this.db
+      .insert(roadHighlights)
+      .values(highlights.map(highlight => ({ ...highlight, workspaceId, userId, createdAt })))
+      .returning();
+  }
+
+  async getRoadHighlights(workspaceId: number, collectionId?: number): Promise<RoadHighlight[]> {
+    return this.db
+      .select()
+      .from(roadHighlights)
+      .where(and(
+        eq(roadHighlights.workspaceId, workspaceId),
+        collectionId === undefined ? undefined : eq(roadHighlights.collectionId, collectionId)
+      ))
+      .orderBy(roadHighlights.id);
+  }
+
+  async getRoadHighlight(id: number): Promise<RoadHighlight | undefined> {
+    const [roadHighlight] = await this.db
+      .select()
+      .from(roadHighlights)
+      .where(eq(roadHighlights.id, id));
+    return roadHighlight;
+  }
+
+  // The version check is part of the update, so two editors can't both win
+  async updateRoadHighlight(id: number, { version, ...changes }: UpdateRoadHighlight): Promise<RoadHighlight | undefined> {
+    const [updated] = await this.db
+      .update(roadHighlights)
+      .set({ ...changes, version: version + 1 })
+      .where(and(eq(roadHighlights.id, id), eq(roadHighlights.version, version)))
+      .returning();
+    return updated;
+  }
+
+  async deleteRoadHighlight(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(roadHighlights)
+      .where(eq(roadHighlights.id, id))
+      .returning({ id: roadHighlights.id });
+    return deleted.length > 0;
+  }
+
+  async replaceCollectionHighlights(
+    { workspaceId, userId }: Owner, collectionId: number, highlights: CollectionHighlight[]
+  ): Promise<RoadHighlight[]> {
+    return this.db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(roadHighlights)
+        .where(and(eq(roadHighlights.workspaceId, workspaceId), eq(roadHighlights.collectionId, collectionId)))
+        .orderBy(roadHighlights.id);
+      const { kept, added, removedIds } = planHighlightReplacement(existing, highlights, collectionId);
+
+      if (removedIds.length > 0) {
+        await tx.delete(roadHighlights).where(inArray(roadHighlights.id, removedIds));
+      }
+      const createdAt = new Date().toISOString();
+      const inserted = added.length === 0 ? [] : await tx
+        .insert(roadHighlights)
+        .values(added.map(highlight => ({ ...highlight, workspaceId, userId, createdAt })))
+        .returning();
+
+      return [...kept, ...inserted];
+    });
+  }
+
+  async getCollections(workspaceId: number): Promise<Collection[]> {
+    return this.db
+      .select()
+      .from(collections)
+      .where(eq(collections.workspaceId, workspaceId))
+      .orderBy(collections.id);
+  }
+
+  async getCollection(id: number): Promise<Collection | undefined> {
+    const [collection] = await this.db
+      .select()
+      .from(collections)
+      .where(eq(collections.id, id));
+    return collection;
+  }
+
+  async createCollection({ workspaceId, userId }: Owner, collection: InsertCollection): Promise<Collection> {
+    const [saved] = await this.db
+      .insert(collections)
+      .values({ ...collection, workspaceId, userId, createdAt: new Date().toISOString() })
+      .returning();
+    return saved;
+  }
+
+  async updateCollection(id: number, changes: UpdateCollection): Promise<Collection | undefined> {
+    if (Object.keys(changes).length === 0) return this.getCollection(id);
+    const [updated] = await this.db
+      .update(collections)
+      .set(changes)
+      .where(eq(collections.id, id))
+      .returning();
+    return updated;
+  }
+
+  // The foreign key cascades the delete to the collection's highlights
+  async deleteCollection(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(collections)
+      .where(eq(collections.id, id))
+      .returning({ id: collections.id });
+    return deleted.length > 0;
+  }
+
+  async getRoadCoverage(workspaceId: number, areaId: string): Promise<RoadCoverage[]> {
+    return this.db
+      .select()
+      .from(roadCoverage)
+      .where(and(eq(roadCoverage.workspaceId, workspaceId), eq(roadCoverage.areaId, areaId)))
+      .orderBy(roadCoverage.id);
+  }
+
+  async saveRoadCoverage(
+    workspaceId: number, areaId: string, completedBy: string, records: InsertRoadCoverage[]
+  ): Promise<RoadCoverage[]> {
+    if (records.length === 0) return [];
+    return this.db
+      .insert(roadCoverage)
+      .values(records.map(record => ({ ...record, workspaceId, areaId, completedBy })))
+      .onConflictDoUpdate({
+        target: [roadCoverage.workspaceId, roadCoverage.areaId, roadCoverage.roadId],
+        set: {
+          status: sql`excluded.status`,
+          coveredLength: sql`excluded.covered_length`,
+          completedAt: sql`excluded.completed_at`,
+          completedBy: sql`excluded.completed_by`,
+        },
+      })
+      .returning();
+  }
+
+  async deleteRoadCoverage(workspaceId: number, areaId: string, roadId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(roadCoverage)
+      .where(and(
+        eq(roadCoverage.workspaceId, workspaceId),
+        eq(roadCoverage.areaId, areaId),
+        eq(roadCoverage.roadId, roadId)
+      ))
+      .returning({ id: roadCoverage.id });
+    return deleted.length > 0;
+  }
+
+  async createShare(share: InsertShare): Promise<Share> {
+    const [saved] = await this.db
+      .insert(shares)
+      .values({ ...share, code: shareCode(), createdAt: new Date().toISOString() })
+      .returning();
+    return saved;
+  }
+
+  async getShare(code: string): Promise<Share | undefined> {
+    const [share] = await this.db.select().from(shares).where(eq(shares.code, code));
+    return share;
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+const createAreaRoadSource = (area: AreaConfig) => createRoadSource(area.roadSource);
+
+// Persist highlights in Postgres when a database is configured,
+// otherwise fall back to keeping them in memory
+export const storage: IStorage = db
+  ? new DatabaseStorage(db, createAreaRoadSource)
+  : new MemStorage(createAreaRoadSource);
\ No newline at end of file
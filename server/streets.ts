@@ -0,0 +1,131 @@
+import { type Road, type Street } from "@shared/schema";
+import { calculateDistance } from "./osm";
+
+// Ways of the same name whose ends are this close (km) belong to one street,
+// which joins dual carriageways and small gaps where OSM nodes are not shared
+const ENDPOINT_JOIN_DISTANCE = 0.03;
+
+// Road types from most to least significant
+const ROAD_TYPE_RANK = ['Motorway', 'Primary', 'Secondary', 'Tertiary', 'Residential', 'Service', 'Path', 'Other'];
+
+export function roadTypeRank(roadType: string): number {
+  const rank = ROAD_TYPE_RANK.indexOf(roadType);
+  return rank === -1 ? ROAD_TYPE_RANK.length : rank;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Union-find over road positions within one name group
+class DisjointSet {
+  private parent: number[];
+
+  constructor(size: number) {
+    this.parent = Array.from({ length: size }, (_, i) => i);
+  }
+
+  find(i: number): number {
+    while (this.parent[i] !== i) {
+      this.parent[i] = this.parent[this.parent[i]];
+      i = this.parent[i];
+    }
+    return i;
+  }
+
+  union(a: number, b: number) {
+    this.parent[this.find(a)] = this.find(b);
+  }
+}
+
+function endpoints(road: Road): [number, number][] {
+  const { coordinates } = road;
+  return [coordinates[0], coordinates[coordinates.length - 1]];
+}
+
+function endpointsNear(a: Road, b: Road): boolean {
+  return endpoints(a).some(([latA, lngA]) =>
+    endpoints(b).some(([latB, lngB]) =>
+      calculateDistance(latA, lngA, latB, lngB) <= ENDPOINT_JOIN_DISTANCE
+    )
+  );
+}
+
+// Merge connected ways of the same name into one street
+function streetsForName(roads: Road[]): Road[][] {
+  const sets = new DisjointSet(roads.length);
+
+  // Ways sharing any node are connected
+  const firstRoadAtPoint = new Map<string, number>();
+  roads.forEach((road, i) => {
+    road.coordinates.forEach(([lat, lng]) => {
+      const key = `${lat},${lng}`;
+      const other = firstRoadAtPoint.get(key);
+      if (other === undefined) {
+        firstRoadAtPoint.set(key, i);
+      } else {
+        sets.union(i, other);
+      }
+    });
+  });
+
+  for (let i = 0; i < roads.length; i++) {
+    for (let j = i + 1; j < roads.length; j++) {
+      if (sets.find(i) !== sets.find(j) && endpointsNear(roads[i], roads[j])) {
+        sets.union(i, j);
+      }
+    }
+  }
+
+  const groups = new Map<number, Road[]>();
+  roads.forEach((road, i) => {
+    const root = sets.find(i);
+    const group = groups.get(root);
+    if (group) group.push(road);
+    else groups.set(root, [road]);
+  });
+  return Array.from(groups.values());
+}
+
+function toStreet(members: Road[]): Street {
+  const roadIds = members.map(road => road.id).sort();
+  const primary = members.reduce((best, road) =>
+    roadTypeRank(road.roadType) < roadTypeRank(best.roadType) ? road : best
+  );
+
+  return {
+    // Named after the lowest member ID so it survives unrelated cache refreshes
+    id: `street-${roadIds[0].replace(/^road-/, '')}`,
+    name: primary.name,
+    roadType: primary.roadType,
+    roadIds,
+    length: members.reduce((total, road) => total + road.length, 0),
+    inAreaLength: members.every(road => road.inAreaLength !== undefined)
+      ? members.reduce((total, road) => total + road.inAreaLength!, 0)
+      : undefined,
+    coordinates: members.map(road => road.coordinates),
+  };
+}
+
+/**
+ * Group OSM ways into logical streets: ways with the same name that are
+ * connected (shared nodes or nearby ends) form one street. Unconnected
+ * stretches with the same name, e.g. two different "High Street"s, stay
+ * separate.
+ */
+export function assembleStreets(roads: Road[]): Street[] {
+  const byName = new Map<string, Road[]>();
+  roads.forEach((road) => {
+    if (road.coordinates.length === 0) return;
+    const key = normalizeName(road.name);
+    const group = byName.get(key);
+    if (group) group.push(road);
+    else byName.set(key, [road]);
+  });
+
+  const streets: Street[] = [];
+  byName.forEach((group) => {
+    streetsForName(group).forEach(members => streets.push(toStreet(members)));
+  });
+  return streets;
+}
@@ -0,0 +1,52 @@
+import sax from "sax";
+import { type TrackGeoJson } from "@shared/schema";
+
+// Lines of [lat, lng] points making up a recorded track
+export type TrackLines = [number, number][][];
+
+/**
+ * Read the points of a GPX file. Each track segment and route becomes one
+ * line; waypoints are ignored as they are not part of the path walked.
+ */
+export function readGpxTrack(xml: string): TrackLines {
+  const lines: TrackLines = [];
+  let current: [number, number][] | null = null;
+
+  const parser = sax.parser(true, { trim: true });
+  parser.onopentag = (tag) => {
+    const attributes = tag.attributes as Record<string, string>;
+
+    switch (tag.name) {
+      case "trkseg":
+      case "rte":
+        current = [];
+        lines.push(current);
+        break;
+      case "trkpt":
+      case "rtept": {
+        const lat = parseFloat(attributes.lat);
+        const lng = parseFloat(attributes.lon);
+        if (current && !isNaN(lat) && !isNaN(lng)) current.push([lat, lng]);
+        break;
+      }
+    }
+  };
+  parser.onclosetag = (name) => {
+    if (name === "trkseg" || name === "rte") current = null;
+  };
+
+  parser.write(xml).close();
+  return lines.filter(line => line.length > 1);
+}
+
+// Read the lines of a validated GeoJSON track (positions are [lng, lat])
+export function readGeoJsonTrack(geojson: TrackGeoJson): TrackLines {
+  const geometries = geojson.type === "FeatureCollection"
+    ? geojson.features.map(feature => feature.geometry)
+    : [geojson.type === "Feature" ? geojson.geometry : geojson];
+
+  return geometries
+    .flatMap(geometry => geometry.type === "LineString" ? [geometry.coordinates] : geometry.coordinates)
+    .map(line => line.map(([lng, lat]) => [lat, lng] as [number, number]))
+    .filter(line => line.length > 1);
+}
@@ -0,0 +1,176 @@
+import GeoJSONVT, { type LegacyFeature } from "geojson-vt";
+import Pbf from "pbf";
+import { type Road } from "@shared/schema";
+
+// Name of the single layer in each tile
+export const ROADS_LAYER = "roads";
+
+// Tile coordinate space; coordinates in a tile run from 0 to EXTENT
+const EXTENT = 4096;
+
+// Deepest zoom tiles are cut at
+export const MAX_TILE_ZOOM = 18;
+
+// Lowest zoom each road type appears at, so low zoom tiles stay light
+const MIN_ZOOM_BY_ROAD_TYPE: Record<string, number> = {
+  'Motorway': 0,
+  'Primary': 0,
+  'Secondary': 11,
+  'Tertiary': 12,
+  'Residential': 13,
+  'Service': 15,
+  'Path': 15,
+  'Other': 15,
+};
+
+// Properties carried by every road feature
+type RoadTags = {
+  roadId: string;
+  name: string;
+  roadType: string;
+  length: number;
+  streetId?: string;
+};
+
+function roadVisibleAt(roadType: string, zoom: number): boolean {
+  return zoom >= (MIN_ZOOM_BY_ROAD_TYPE[roadType] ?? MIN_ZOOM_BY_ROAD_TYPE['Other']);
+}
+
+// Numeric OSM way id used as the feature id ("way/123" -> 123)
+function featureId(road: Road): number | undefined {
+  const id = Number(road.osmId.split('/')[1]);
+  return Number.isSafeInteger(id) && id >= 0 ? id : undefined;
+}
+
+function zigzag(n: number): number {
+  return (n << 1) ^ (n >> 31);
+}
+
+// Encode lines as MoveTo/LineTo commands with zigzagged deltas (MVT spec 4.3)
+function encodeLines(lines: [number, number][][]): number[] {
+  const commands: number[] = [];
+  let x = 0;
+  let y = 0;
+
+  lines.forEach((line) => {
+    if (line.length < 2) return;
+
+    line.forEach(([px, py], i) => {
+      if (i === 0) commands.push((1 << 3) | 1); // MoveTo, one point
+      if (i === 1) commands.push(((line.length - 1) << 3) | 2); // LineTo, the rest
+      commands.push(zigzag(px - x), zigzag(py - y));
+      x = px;
+      y = py;
+    });
+  });
+
+  return commands;
+}
+
+// Writes one layer, interning tag keys and values as the spec requires
+class LayerWriter {
+  private keys = new Map<string, number>();
+  private values = new Map<string | number, number>();
+
+  constructor(private name: string, private features: LegacyFeature[]) {}
+
+  private index<T>(table: Map<T, number>, item: T): number {
+    let i = table.get(item);
+    if (i === undefined) {
+      i = table.size;
+      table.set(item, i);
+    }
+    return i;
+  }
+
+  write(pbf: Pbf) {
+    pbf.writeVarintField(15, 2); // version
+    pbf.writeStringField(1, this.name);
+
+    this.features.forEach((feature) => {
+      if (feature.type !== 2) return;
+      const geometry = encodeLines(feature.geometry);
+      if (geometry.length === 0) return;
+
+      pbf.writeMessage(2, (_, out) => {
+        if (typeof feature.id === 'number') out.writeVarintField(1, feature.id);
+
+        const tags: number[] = [];
+        Object.entries(feature.tags ?? {}).forEach(([key, value]) => {
+          if (typeof value !== 'string' && typeof value !== 'number') return;
+          tags.push(this.index(this.keys, key), this.index(this.values, value));
+        });
+        out.writePackedVarint(2, tags);
+
+        out.writeVarintField(3, 2); // LINESTRING
+        out.writePackedVarint(4, geometry);
+      }, null);
+    });
+
+    this.keys.forEach((_, key) => pbf.writeStringField(3, key));
+    this.values.forEach((_, value) => {
+      pbf.writeMessage(4, (_, out) => {
+        if (typeof value === 'string') out.writeStringField(1, value);
+        else out.writeDoubleField(3, value);
+      }, null);
+    });
+
+    pbf.writeVarintField(5, EXTENT);
+  }
+}
+
+/**
+ * Cuts an area's roads into Mapbox Vector Tiles. Geometry is simplified to
+ * the tile's resolution at every zoom, and minor road types are left out of
+ * low zoom tiles. Each feature carries the road's ID so the client can
+ * resolve clicks to full roads.
+ */
+export class RoadTileIndex {
+  private index: GeoJSONVT;
+
+  constructor(roads: Road[]) {
+    this.index = new GeoJSONVT({
+      type: 'FeatureCollection',
+      features: roads.map((road) => {
+        const properties: RoadTags = {
+          roadId: road.id,
+          name: road.name,
+          roadType: road.roadType,
+          length: road.length,
+        };
+        if (road.streetId) properties.streetId = road.streetId;
+
+        return {
+          type: 'Feature',
+          id: featureId(road),
+          properties,
+          geometry: {
+            type: 'LineString',
+            // GeoJSON positions are [lng, lat]
+            coordinates: road.coordinates.map(([lat, lng]) => [lng, lat]),
+          },
+        };
+      }),
+    }, {
+      maxZoom: MAX_TILE_ZOOM,
+      extent: EXTENT,
+      tolerance: 3, // Simplification tolerance in tile pixels
+      buffer: 64,
+    });
+  }
+
+  // Encoded tile, or null when no road shows up in it
+  getTile(z: number, x: number, y: number): Uint8Array | null {
+    const tile = this.index.getTile(z, x, y);
+    if (!tile) return null;
+
+    const features = tile.features.filter(feature =>
+      roadVisibleAt(String(feature.tags?.roadType), z)
+    );
+    if (features.length === 0) return null;
+
+    const pbf = new Pbf();
+    pbf.writeMessage(3, (layer: LayerWriter, out) => layer.write(out), new LayerWriter(ROADS_LAYER, features));
+    return pbf.finish();
+  }
+}
@@ -0,0 +1,66 @@
+import { type Request, type Response, type NextFunction } from "express";
+import { type WorkspaceRole } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The workspace a request acts on and the user's role in it, set by loadWorkspace
+      workspace?: { id: number; role: WorkspaceRole };
+    }
+  }
+}
+
+// Each role can do everything the ones below it can
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+export function hasRole(role: WorkspaceRole, minimum: WorkspaceRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/**
+ * Find the workspace a request acts on, from the `:workspaceId` route
+ * parameter or else the `workspace` query parameter, and check the user is a
+ * member. Workspaces the user isn't in are reported as missing. Expects
+ * requireAuth to have run first.
+ */
+export async function loadWorkspace(req: Request, res: Response, next: NextFunction) {
+  try {
+    const value = req.params.workspaceId ?? req.query.workspace;
+    if (value === undefined || value === '') {
+      return res.status(400).json({ message: 'Missing required parameter: workspace' });
+    }
+
+    const id = typeof value === 'string' ? parseInt(value) : NaN;
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid workspace parameter' });
+    }
+
+    const role = await storage.getWorkspaceRole(id, req.user!.id);
+    if (!role) {
+      return res.status(404).json({ message: 'Workspace not found' });
+    }
+
+    req.workspace = { id, role };
+    next();
+  } catch (error) {
+    res.status(500).json({ 
+      message: 'Failed to load workspace',
+      error: (error as Error).message
+    });
+  }
+}
+
+// Reject requests from members below the given role; runs after loadWorkspace
+export function requireRole(minimum: WorkspaceRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.workspace || !hasRole(req.workspace.role, minimum)) {
+      return res.status(403).json({ message: `This needs the ${minimum} role or higher in the workspace` });
+    }
+    next();
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { Road } from "./schema";
+import { compactRoad, decodePolyline, encodePolyline, expandRoad } from "./polyline";
+
+describe("encodePolyline", () => {
+  it("encodes at 6 decimal places as in Google's algorithm", () => {
+    // The algorithm's documented example, scaled to 6 decimal places
+    expect(encodePolyline([[38.5, -120.2], [40.7, -120.95], [43.252, -126.453]]))
+      .toBe("_izlhA~rlgdF_{geC~ywl@_kwzCn`{nI");
+  });
+
+  it("encodes no points as an empty string", () => {
+    expect(encodePolyline([])).toBe("");
+    expect(decodePolyline("")).toEqual([]);
+  });
+
+  it("round-trips coordinates to within half a millionth of a degree", () => {
+    const points: [number, number][] = [[51.4567891, -0.1912345], [51.4568, -0.19], [-33.8688, 151.2093]];
+    decodePolyline(encodePolyline(points)).forEach(([lat, lng], i) => {
+      expect(Math.abs(lat - points[i][0])).toBeLessThanOrEqual(0.5e-6 + 1e-12);
+      expect(Math.abs(lng - points[i][1])).toBeLessThanOrEqual(0.5e-6 + 1e-12);
+    });
+  });
+});
+
+describe("compactRoad and expandRoad", () => {
+  it("round-trips a road with its in-area pieces", () => {
+    const road: Road = {
+      id: "road-1",
+      osmId: "way/1",
+      name: "Broomwood Road",
+      roadType: "Residential",
+      length: 0.3,
+      coordinates: [[51.455, -0.165], [51.4555, -0.16], [51.456, -0.158]],
+      inAreaLength: 0.2,
+      inAreaCoordinates: [[[51.455, -0.165], [51.4555, -0.16]]],
+      streetId: "street-1",
+    };
+
+    const compact = compactRoad(road);
+    expect(compact).not.toHaveProperty("coordinates");
+    expect(typeof compact.line).toBe("string");
+    expect(expandRoad(JSON.parse(JSON.stringify(compact)))).toEqual(road);
+  });
+
+  it("leaves out in-area lines for a road wholly inside", () => {
+    const road: Road = {
+      id: "road-2", osmId: "way/2", name: "Plough Road", roadType: "Secondary", length: 0.1,
+      coordinates: [[51.465, -0.175], [51.468, -0.176]],
+    };
+
+    expect(compactRoad(road).inAreaLines).toBeUndefined();
+    expect(expandRoad(compactRoad(road))).toEqual({ ...road, inAreaCoordinates: undefined });
+  });
+});
@@ -0,0 +1,84 @@
+// Compact form of roads for /api/roads: coordinates as encoded polylines
+// (Google's algorithm at 6 decimal places, about 0.1 m), shared by the server
+// (which writes it) and the client (which reads it)
+
+import type { Road } from "./schema";
+
+// Media type clients send in Accept to get compact roads instead of plain JSON
+export const COMPACT_ROADS_TYPE = "application/vnd.road-highlighter.polyline+json";
+
+const PRECISION = 1e6;
+
+// A road with its lines encoded; everything else is as in Road
+export type CompactRoad = Omit<Road, "coordinates" | "inAreaCoordinates"> & {
+  line: string;
+  inAreaLines?: string[];
+};
+
+function encodeValue(value: number, output: string[]) {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  while (v >= 0x20) {
+    output.push(String.fromCharCode((0x20 | (v & 0x1f)) + 63));
+    v >>= 5;
+  }
+  output.push(String.fromCharCode(v + 63));
+}
+
+// [lat, lng] points as an encoded polyline, each value a delta from the previous point
+export function encodePolyline(points: [number, number][]): string {
+  const output: string[] = [];
+  let lastLat = 0;
+  let lastLng = 0;
+
+  points.forEach(([lat, lng]) => {
+    const scaledLat = Math.round(lat * PRECISION);
+    const scaledLng = Math.round(lng * PRECISION);
+    encodeValue(scaledLat - lastLat, output);
+    encodeValue(scaledLng - lastLng, output);
+    lastLat = scaledLat;
+    lastLng = scaledLng;
+  });
+  return output.join("");
+}
+
+export function decodePolyline(text: string): [number, number][] {
+  const points: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const decodeValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = text.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < text.length) {
+    lat += decodeValue();
+    lng += decodeValue();
+    points.push([lat / PRECISION, lng / PRECISION]);
+  }
+  return points;
+}
+
+export function compactRoad({ coordinates, inAreaCoordinates, ...road }: Road): CompactRoad {
+  return {
+    ...road,
+    line: encodePolyline(coordinates),
+    inAreaLines: inAreaCoordinates?.map(encodePolyline),
+  };
+}
+
+export function expandRoad({ line, inAreaLines, ...road }: CompactRoad): Road {
+  return {
+    ...road,
+    coordinates: decodePolyline(line),
+    inAreaCoordinates: inAreaLines?.map(decodePolyline),
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { Road } from "./schema";
+import { DETAIL_LEVELS, detailLevelFor, roadAtDetailLevel } from "./roadDetail";
+
+const road = (roadType: string): Road => ({
+  id: "road-1",
+  osmId: "way/1",
+  name: "Test Road",
+  roadType,
+  length: 0.2,
+  // The middle point is about 1 m off the line between the ends
+  coordinates: [[51.45, -0.16], [51.45001, -0.159], [51.45, -0.158]],
+});
+
+describe("detailLevelFor", () => {
+  it("picks the level covering the zoom", () => {
+    expect(detailLevelFor(undefined)).toBe(0);
+    expect(detailLevelFor(18)).toBe(0);
+    expect(detailLevelFor(17)).toBe(0);
+    expect(detailLevelFor(16)).toBe(1);
+    expect(detailLevelFor(13)).toBe(2);
+    expect(detailLevelFor(0)).toBe(DETAIL_LEVELS.length - 1);
+  });
+});
+
+describe("roadAtDetailLevel", () => {
+  it("serves full detail unchanged", () => {
+    const residential = road("Residential");
+    expect(roadAtDetailLevel(residential, DETAIL_LEVELS[0])).toBe(residential);
+  });
+
+  it("simplifies and marks the road at coarser levels", () => {
+    const simplified = roadAtDetailLevel(road("Primary"), DETAIL_LEVELS[detailLevelFor(15)]);
+
+    expect(simplified?.simplified).toBe(true);
+    expect(simplified?.coordinates).toEqual([[51.45, -0.16], [51.45, -0.158]]);
+  });
+
+  it("leaves out minor road types when zoomed out", () => {
+    expect(roadAtDetailLevel(road("Path"), DETAIL_LEVELS[detailLevelFor(15)])).toBeDefined();
+    expect(roadAtDetailLevel(road("Path"), DETAIL_LEVELS[detailLevelFor(13)])).toBeUndefined();
+    expect(roadAtDetailLevel(road("Residential"), DETAIL_LEVELS[detailLevelFor(13)])).toBeDefined();
+    expect(roadAtDetailLevel(road("Residential"), DETAIL_LEVELS[detailLevelFor(10)])).toBeUndefined();
+    expect(roadAtDetailLevel(road("Primary"), DETAIL_LEVELS[detailLevelFor(10)])).toBeDefined();
+  });
+});
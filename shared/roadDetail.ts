@@ -0,0 +1,50 @@
+// Levels of detail roads are served at by zoom, shared by the server (which
+// precomputes them) and the client (which asks for the one it needs, or
+// simplifies its preloaded copy the same way)
+
+import type { Road } from "./schema";
+import { simplifyLine } from "./simplify";
+
+// At or below this zoom the map draws roads from vector tiles on a canvas,
+// since one polyline per road gets slow; road geometry is only requested above it
+export const VECTOR_TILE_MAX_ZOOM = 14;
+
+export type DetailLevel = {
+  minZoom: number; // Lowest zoom the level is used at
+  tolerance: number; // Douglas–Peucker tolerance in metres; 0 keeps every point
+  roadTypes?: string[]; // Road types shown at this level, or every type if left out
+};
+
+const MAJOR_ROAD_TYPES = ["Motorway", "Primary", "Secondary", "Tertiary"];
+
+// Closest level first; the last one covers every zoom below the others
+export const DETAIL_LEVELS: DetailLevel[] = [
+  { minZoom: 17, tolerance: 0 },
+  { minZoom: 15, tolerance: 2 },
+  { minZoom: 13, tolerance: 8, roadTypes: [...MAJOR_ROAD_TYPES, "Residential"] },
+  { minZoom: 0, tolerance: 25, roadTypes: MAJOR_ROAD_TYPES },
+];
+
+// Index into DETAIL_LEVELS for a zoom; full detail when no zoom is given
+export function detailLevelFor(zoom: number | undefined): number {
+  if (zoom === undefined) return 0;
+  return DETAIL_LEVELS.findIndex(level => zoom >= level.minZoom);
+}
+
+// Whether roads of the type are shown at the level
+export function showsRoadType(level: DetailLevel, roadType: string): boolean {
+  return !level.roadTypes || level.roadTypes.includes(roadType);
+}
+
+// A road as served at a level of detail, or undefined if its type isn't shown there
+export function roadAtDetailLevel(road: Road, level: DetailLevel): Road | undefined {
+  if (!showsRoadType(level, road.roadType)) return undefined;
+  if (level.tolerance === 0) return road;
+
+  return {
+    ...road,
+    coordinates: simplifyLine(road.coordinates, level.tolerance),
+    inAreaCoordinates: road.inAreaCoordinates?.map(piece => simplifyLine(piece, level.tolerance)),
+    simplified: true,
+  };
+}
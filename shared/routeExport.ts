@@ -0,0 +1,113 @@
+// GPX and KML writers for roads and highlights, shared by the client (for the
+// current selection) and the server (for saved highlights)
+
+// The fields both exports need; Road and RoadHighlight both fit
+export type ExportableRoad = {
+  name: string;
+  roadType: string;
+  length: number;
+  osmId: string;
+  coordinates: [number, number][]; // [lat, lng]
+};
+
+const CREATOR = "Road Highlighter";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function describe(road: ExportableRoad): string {
+  return `${road.roadType} road, ${road.length.toFixed(2)} km`;
+}
+
+// Web page of an OSM element ("way/123"), if the ID has that shape
+function osmUrl(osmId: string): string | null {
+  const [kind, id] = osmId.split("/");
+  return kind && id ? `https://www.openstreetmap.org/${kind}/${id}` : null;
+}
+
+/**
+ * GPX 1.1 document with one track per road. Child elements follow the order
+ * the schema requires (name, desc, src, link, type, trkseg).
+ */
+export function toGpx(roads: ExportableRoad[], title: string): string {
+  const tracks = roads.map((road) => {
+    const url = osmUrl(road.osmId);
+    const points = road.coordinates
+      .map(([lat, lng]) => `      <trkpt lat="${lat}" lon="${lng}"/>`)
+      .join("\n");
+
+    return [
+      "  <trk>",
+      `    <name>${escapeXml(road.name)}</name>`,
+      `    <desc>${escapeXml(describe(road))}</desc>`,
+      road.osmId ? `    <src>OpenStreetMap ${escapeXml(road.osmId)}</src>` : null,
+      url ? `    <link href="${escapeXml(url)}"/>` : null,
+      `    <type>${escapeXml(road.roadType)}</type>`,
+      "    <trkseg>",
+      points,
+      "    </trkseg>",
+      "  </trk>",
+    ].filter(line => line !== null).join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    "  <metadata>",
+    `    <name>${escapeXml(title)}</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    "  </metadata>",
+    ...tracks,
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * KML 2.2 document with one placemark per road; name, type, length and OSM
+ * ID are also kept as ExtendedData so they survive a round trip.
+ */
+export function toKml(roads: ExportableRoad[], title: string): string {
+  const placemarks = roads.map((road) => {
+    // KML coordinates are lng,lat tuples separated by spaces
+    const coordinates = road.coordinates.map(([lat, lng]) => `${lng},${lat}`).join(" ");
+    const data = {
+      roadType: road.roadType,
+      length: road.length.toFixed(3),
+      osmId: road.osmId,
+    };
+
+    return [
+      "    <Placemark>",
+      `      <name>${escapeXml(road.name)}</name>`,
+      `      <description>${escapeXml(describe(road))}</description>`,
+      "      <ExtendedData>",
+      ...Object.entries(data).map(([key, value]) =>
+        `        <Data name="${key}"><value>${escapeXml(value)}</value></Data>`
+      ),
+      "      </ExtendedData>",
+      "      <LineString>",
+      "        <tessellate>1</tessellate>",
+      `        <coordinates>${coordinates}</coordinates>`,
+      "      </LineString>",
+      "    </Placemark>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${escapeXml(title)}</name>`,
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
@@ -1,29 +1,294 @@
-import { pgTable, text, serial, json, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, json, real, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// A team member's account; the password is stored as a salted scrypt hash
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+// Schema for registering (and logging in) with a username and password
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().trim().min(3).max(50)
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Use letters, digits, dots, dashes and underscores only"),
+  password: z.string().min(8).max(200),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What a workspace member may do: owners also manage members, editors change
+// highlights and collections, viewers only look
+export const workspaceRoles = ["owner", "editor", "viewer"] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+// A team's shared set of collections and highlights
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").$type<WorkspaceRole>().notNull(),
+}, (table) => [
+  uniqueIndex("workspace_members_workspace_user_idx").on(table.workspaceId, table.userId),
+]);
+
+// Schema for creating a workspace
+export const insertWorkspaceSchema = createInsertSchema(workspaces, {
+  name: z.string().trim().min(1).max(100),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Schema for inviting someone into a workspace by username
+export const inviteMemberSchema = z.object({
+  username: z.string().trim().min(1),
+  role: z.enum(workspaceRoles),
+});
+
+// Schema for changing a member's role
+export const updateMemberSchema = z.object({
+  role: z.enum(workspaceRoles),
+});
+
+// A named set of highlights for one campaign (leafleting, a survey, ...)
+export const collections = pgTable("collections", {
+  id: serial("id").primaryKey(),
+  // Workspace sharing the collection
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  // Creator of the collection; collections made before accounts existed have none
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  color: text("color").notNull(), // "#rrggbb"
+  createdAt: text("created_at").notNull(),
+});
+
+// Schema for creating a collection
+export const insertCollectionSchema = createInsertSchema(collections, {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a colour like #3388ff"),
+}).omit({
+  id: true,
+  workspaceId: true,
+  userId: true,
+  createdAt: true,
+});
+
+// Schema for editing a collection; any subset of its fields
+export const updateCollectionSchema = insertCollectionSchema.partial();
+
+// Where work on a highlighted road stands
+export const highlightStatuses = ["planned", "in-progress", "done"] as const;
+export type HighlightStatus = typeof highlightStatuses[number];
+
+// Annotations a highlight can carry, shared by the insert, update and import schemas
+const highlightNotesSchema = z.string().trim().max(2000);
+const highlightColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a colour like #3388ff");
+const highlightTagsSchema = z.array(z.string().trim().min(1).max(50)).max(20);
+
 // Define the structure of a road highlight
 export const roadHighlights = pgTable("road_highlights", {
   id: serial("id").primaryKey(),
+  // Workspace sharing the highlight
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  // Creator of the highlight; highlights made before accounts existed have none
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  // Highlights made before collections existed belong to none
+  collectionId: integer("collection_id").references(() => collections.id, { onDelete: "cascade" }),
   osmId: text("osm_id").notNull(),
   name: text("name").notNull(),
   roadType: text("road_type").notNull(),
   length: real("length").notNull(),
   coordinates: json("coordinates").notNull(),
+  notes: text("notes").notNull().default(""),
+  status: text("status").$type<HighlightStatus>().notNull().default("planned"),
+  color: text("color"), // "#rrggbb", or null to use the collection's colour
+  tags: json("tags").$type<string[]>().notNull().default([]),
+  // Bumped on every edit, so concurrent edits can be detected
+  version: integer("version").notNull().default(1),
   createdAt: text("created_at").notNull(),
 });
 
 // Schema for inserting a new road highlight
-export const insertRoadHighlightSchema = createInsertSchema(roadHighlights).omit({
+export const insertRoadHighlightSchema = createInsertSchema(roadHighlights, {
+  notes: highlightNotesSchema.optional(),
+  status: z.enum(highlightStatuses).optional(),
+  color: highlightColorSchema.nullable().optional(),
+  tags: highlightTagsSchema.optional(),
+}).omit({
   id: true,
+  workspaceId: true,
+  userId: true,
+  version: true,
   createdAt: true,
 });
 
+// Schema for annotating a highlight. `version` is the one the edit was based
+// on; the update is refused if the highlight has changed since.
+export const updateRoadHighlightSchema = z.object({
+  version: z.number().int().positive(),
+  notes: highlightNotesSchema.optional(),
+  status: z.enum(highlightStatuses).optional(),
+  color: highlightColorSchema.nullable().optional(),
+  tags: highlightTagsSchema.optional(),
+});
+
+// Replacement set of a collection's highlights. Entries carrying the ID of a
+// highlight already in the collection keep it as it is.
+export const collectionHighlightsSchema = z.object({
+  highlights: z.array(
+    insertRoadHighlightSchema.omit({ collectionId: true }).extend({
+      id: z.number().int().positive().optional(),
+    })
+  ),
+});
+
+// Coverage statuses: a road walked end to end, or only part of it
+export const coverageStatuses = ["partial", "full"] as const;
+export type CoverageStatus = typeof coverageStatuses[number];
+
+// Progress of the "every street" challenge: one record per covered road, kept
+// separately by each workspace
+export const roadCoverage = pgTable("road_coverage", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  areaId: text("area_id").notNull(),
+  roadId: text("road_id").notNull(),
+  status: text("status").$type<CoverageStatus>().notNull(),
+  // Length of the road covered so far in km; the whole road when full
+  coveredLength: real("covered_length").notNull(),
+  completedAt: text("completed_at").notNull(),
+  completedBy: text("completed_by").notNull(),
+}, (table) => [
+  uniqueIndex("road_coverage_workspace_area_road_idx").on(table.workspaceId, table.areaId, table.roadId),
+]);
+
+// Schema for recording coverage of a road in an area (the workspace, area
+// and who recorded it come from the request)
+export const insertRoadCoverageSchema = createInsertSchema(roadCoverage, {
+  status: z.enum(coverageStatuses),
+  coveredLength: z.number().nonnegative(),
+  completedAt: z.string().date(),
+}).omit({
+  id: true,
+  workspaceId: true,
+  areaId: true,
+  completedBy: true,
+}).refine(record => record.status === "full" || record.coveredLength > 0, {
+  message: "A partly covered road needs the length covered",
+  path: ["coveredLength"],
+});
+
 // Schema for road coordinates (array of [lat, lng] points)
 export const coordinatesSchema = z.array(
   z.tuple([z.number(), z.number()])
 );
 
+// GeoJSON position: [lng, lat], optionally followed by an altitude
+const positionSchema = z.tuple([z.number(), z.number()]).rest(z.number());
+
+// Highlights exported as a GeoJSON FeatureCollection of LineStrings; only a
+// name is required so files made with other tools can be imported too
+export const highlightFeatureCollectionSchema = z.object({
+  type: z.literal("FeatureCollection"),
+  features: z.array(z.object({
+    type: z.literal("Feature"),
+    geometry: z.object({
+      type: z.literal("LineString"),
+      coordinates: z.array(positionSchema).min(2),
+    }),
+    properties: z.object({
+      name: z.string().min(1),
+      roadType: z.string().default("Other"),
+      length: z.number().nonnegative().optional(),
+      osmId: z.string().default(""),
+      notes: highlightNotesSchema.optional(),
+      status: z.enum(highlightStatuses).optional(),
+      color: highlightColorSchema.nullable().optional(),
+      tags: highlightTagsSchema.optional(),
+      createdAt: z.string().optional(),
+    }),
+  })).min(1),
+});
+
+export type HighlightFeatureCollection = z.infer<typeof highlightFeatureCollectionSchema>;
+
+// GPS track uploaded as GeoJSON: a (Multi)LineString, bare or wrapped in a
+// Feature or FeatureCollection
+const trackGeometrySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("LineString"), coordinates: z.array(positionSchema) }),
+  z.object({ type: z.literal("MultiLineString"), coordinates: z.array(z.array(positionSchema)) }),
+]);
+
+const trackFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  geometry: trackGeometrySchema,
+});
+
+export const trackGeoJsonSchema = z.union([
+  trackGeometrySchema,
+  trackFeatureSchema,
+  z.object({ type: z.literal("FeatureCollection"), features: z.array(trackFeatureSchema) }),
+]);
+
+export type TrackGeoJson = z.infer<typeof trackGeoJsonSchema>;
+
+// Messages a client sends over the live updates WebSocket: which workspace
+// (and collection, for presence) it is looking at, and what its user has
+// selected and where their pointer is
+export const liveClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("subscribe"),
+    workspaceId: z.number().int(),
+    collectionId: z.number().int().nullable(),
+  }),
+  z.object({
+    type: z.literal("presence"),
+    selection: z.array(z.string()).max(5000),
+    cursor: z.tuple([z.number(), z.number()]).nullable(),
+  }),
+]);
+
+export type LiveClientMessage = z.infer<typeof liveClientMessageSchema>;
+
+// A saved map view and selection behind a short link, for selections too
+// large to fit in the URL itself
+export const shares = pgTable("shares", {
+  code: text("code").primaryKey(),
+  areaId: text("area_id").notNull(),
+  center: json("center").$type<[number, number]>().notNull(),
+  zoom: integer("zoom").notNull(),
+  roadIds: json("road_ids").$type<string[]>().notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+// Schema for sharing a view; the code and creation time are set by the server
+export const insertShareSchema = createInsertSchema(shares, {
+  areaId: z.string().min(1),
+  center: z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)]),
+  zoom: z.number().int().min(0).max(22),
+  roadIds: z.array(z.string().min(1)).max(20000),
+}).omit({
+  code: true,
+  createdAt: true,
+});
+
+// Schema for fetching several roads of an area by ID at once
+export const roadLookupSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(20000),
+});
+
 // Road type for frontend use
 export type Road = {
   id: string;
@@ -32,7 +297,142 @@ export type Road = {
   roadType: string;
   length: number;
   coordinates: [number, number][];
+  // Length in km of the parts inside the area boundary, when it is known
+  inAreaLength?: number;
+  // Parts of the road inside the area boundary; only present when the road
+  // crosses the boundary, otherwise the full coordinates lie inside
+  inAreaCoordinates?: [number, number][][];
+  // Logical street this way belongs to, once the master cache is assembled
+  streetId?: string;
+  // True when the coordinates were simplified for a low zoom; fetch the road
+  // by ID for its full geometry
+  simplified?: boolean;
+};
+
+// A named street assembled from connected OSM ways
+export type Street = {
+  id: string;
+  name: string;
+  // Most significant road type among the member ways
+  roadType: string;
+  // Road IDs of the member ways
+  roadIds: string[];
+  // Combined length of all member ways in km
+  length: number;
+  // Combined length of the member ways' parts inside the area boundary
+  inAreaLength?: number;
+  // One line per member way
+  coordinates: [number, number][][];
+};
+
+// A street whose name matched a road search
+export type RoadSearchResult = {
+  streetId: string;
+  name: string;
+  roadType: string;
+  length: number; // km
+  bounds: {
+    swLat: number;
+    swLng: number;
+    neLat: number;
+    neLng: number;
+  };
+};
+
+// A road a recorded GPS track was matched to
+export type TrackMatch = {
+  roadId: string;
+  // Length of the road the track covered, in km
+  coveredLength: number;
+  roadLength: number;
+};
+
+export type InsertRoadCoverage = z.infer<typeof insertRoadCoverageSchema>;
+export type RoadCoverage = typeof roadCoverage.$inferSelect;
+
+// Challenge progress across all roads of an area
+export type CoverageProgress = {
+  totalRoads: number;
+  fullRoads: number;
+  partialRoads: number;
+  // Road lengths inside the area, in km
+  totalLength: number;
+  coveredLength: number;
+  percentByCount: number;
+  percentByLength: number;
+};
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+// A user as sent to the client, without the password hash
+export type PublicUser = Omit<User, "password">;
+
+export type InsertShare = z.infer<typeof insertShareSchema>;
+export type Share = typeof shares.$inferSelect;
+
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type Workspace = typeof workspaces.$inferSelect;
+// A workspace as listed for one of its members
+export type MemberWorkspace = Workspace & { role: WorkspaceRole };
+// A member as listed to the rest of the workspace
+export type WorkspaceMember = {
+  userId: number;
+  username: string;
+  role: WorkspaceRole;
 };
 
 export type InsertRoadHighlight = z.infer<typeof insertRoadHighlightSchema>;
 export type RoadHighlight = typeof roadHighlights.$inferSelect;
+export type UpdateRoadHighlight = z.infer<typeof updateRoadHighlightSchema>;
+export type CollectionHighlight = z.infer<typeof collectionHighlightsSchema>["highlights"][number];
+export type InsertCollection = z.infer<typeof insertCollectionSchema>;
+export type UpdateCollection = z.infer<typeof updateCollectionSchema>;
+export type Collection = typeof collections.$inferSelect;
+
+// What a teammate looking at the same collection has selected and where
+export type Presence = {
+  userId: number;
+  username: string;
+  selection: string[]; // Road IDs
+  cursor: [number, number] | null;
+};
+
+// Messages the server pushes to live update subscribers. Saved highlights
+// replace cached copies by ID; collection changes just mean refetching.
+export type LiveServerMessage =
+  | { type: "highlights-saved"; highlights: RoadHighlight[] }
+  | { type: "highlight-deleted"; id: number }
+  | { type: "collections-changed" }
+  | { type: "presence"; presence: Presence }
+  | { type: "presence-left"; userId: number };
+
+// Administrative boundary of the mapped area
+export type Boundary = {
+  relationId: number;
+  name: string;
+  // Outer and inner rings as closed [lat, lng] loops; points are inside
+  // when they fall within an odd number of rings
+  rings: [number, number][][];
+  bounds: {
+    swLat: number;
+    swLng: number;
+    neLat: number;
+    neLng: number;
+  };
+  // True when the real boundary could not be loaded and a rough outline is used
+  approximate: boolean;
+};
+
+// Area of interest the app can be switched between (a borough, council, etc.)
+export type Area = {
+  id: string;
+  name: string;
+  // OSM relation holding the area's administrative boundary
+  relationId: number;
+  center: [number, number];
+  zoom: {
+    min: number;
+    max: number;
+    initial: number;
+  };
+};
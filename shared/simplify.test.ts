@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { simplifyLine } from "./simplify";
+
+// About 1.1 m of latitude
+const METRE = 0.00001;
+
+describe("simplifyLine", () => {
+  it("drops points within the tolerance of a straight line", () => {
+    const line: [number, number][] = [
+      [51.45, -0.16],
+      [51.45 + METRE, -0.159],
+      [51.45 - METRE, -0.158],
+      [51.45, -0.157],
+    ];
+
+    expect(simplifyLine(line, 5)).toEqual([line[0], line[3]]);
+  });
+
+  it("keeps a corner further away than the tolerance", () => {
+    const line: [number, number][] = [
+      [51.45, -0.16],
+      [51.4505, -0.159],
+      [51.451, -0.16],
+    ];
+
+    expect(simplifyLine(line, 5)).toEqual(line);
+  });
+
+  it("keeps only the points needed at each tolerance", () => {
+    // A zigzag whose swings grow: 2 m, 20 m, then back to the line
+    const line: [number, number][] = [
+      [51.45, -0.16],
+      [51.45 + 2 * METRE, -0.159],
+      [51.45, -0.158],
+      [51.45 + 20 * METRE, -0.157],
+      [51.45, -0.156],
+    ];
+
+    expect(simplifyLine(line, 1)).toEqual(line);
+    expect(simplifyLine(line, 15)).toEqual([line[0], line[3], line[4]]);
+    expect(simplifyLine(line, 50)).toEqual([line[0], line[4]]);
+  });
+
+  it("leaves short lines and a zero tolerance alone", () => {
+    const line: [number, number][] = [[51.45, -0.16], [51.45 + METRE, -0.159], [51.45, -0.158]];
+
+    expect(simplifyLine(line.slice(0, 2), 10)).toEqual(line.slice(0, 2));
+    expect(simplifyLine(line, 0)).toBe(line);
+  });
+});
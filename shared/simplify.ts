@@ -0,0 +1,56 @@
+// Metres per degree of latitude
+const METRES_PER_DEGREE = 111320;
+
+// Distance in metres from p to the segment a–b, all given as planar [x, y] metres
+function distanceToSegment(p: [number, number], a: [number, number], b: [number, number]): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+/**
+ * Douglas–Peucker simplification of a [lat, lng] line: drops points lying
+ * within `tolerance` metres of the simplified line. The ends are always kept.
+ * Distances use a flat projection around the line's first point, which is
+ * plenty accurate over the length of a road.
+ */
+export function simplifyLine(points: [number, number][], tolerance: number): [number, number][] {
+  if (points.length <= 2 || tolerance <= 0) return points;
+
+  const lngScale = Math.cos((points[0][0] * Math.PI) / 180);
+  const planar = points.map(([lat, lng]): [number, number] => [
+    lng * METRES_PER_DEGREE * lngScale,
+    lat * METRES_PER_DEGREE,
+  ]);
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  // Runs still to check, as [first, last] point indexes
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = tolerance;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(planar[i], planar[first], planar[last]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = 1;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
@@ -0,0 +1,22 @@
+import { defineConfig } from "vitest/config";
+import os from "os";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["{client/src,server,shared}/**/*.test.ts"],
+    // Keep the server offline: roads and the boundary come from fixtures
+    env: {
+      ROAD_SOURCE: "fixture",
+      ROAD_FIXTURE: path.resolve(import.meta.dirname, "fixtures", "test", "roads.json"),
+      BOUNDARY_FILE: path.resolve(import.meta.dirname, "fixtures", "test", "boundary.geojson"),
+      CACHE_DIR: path.join(os.tmpdir(), "road-highlighter-test-cache"),
+    },
+  },
+});